@@ -7,9 +7,18 @@ contextBridge.exposeInMainWorld("electron", {
   showOpenDialog: (options) => {
     return ipcRenderer.invoke("show-open-dialog", options);
   },
+  showSaveDialog: (options) => {
+    return ipcRenderer.invoke("show-save-dialog", options);
+  },
   readFile: (filePath, encoding) => {
     return ipcRenderer.invoke("read-file", filePath, encoding);
   },
+  writeFile: (filePath, data) => {
+    return ipcRenderer.invoke("write-file", filePath, data);
+  },
+  writeFrame: (directoryPath, index, data) => {
+    return ipcRenderer.invoke("write-frame", directoryPath, index, data);
+  },
   listDirectory: (directoryPath) => {
     return ipcRenderer.invoke("list-directory", directoryPath);
   },
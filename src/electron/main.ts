@@ -62,6 +62,11 @@ ipcMain.handle("show-open-dialog", async (event, options) => {
   return await dialog.showOpenDialog(mainWindow, options);
 });
 
+ipcMain.handle("show-save-dialog", async (event, options) => {
+  if (!mainWindow) return { canceled: true };
+  return await dialog.showSaveDialog(mainWindow, options);
+});
+
 ipcMain.handle("read-file", async (event, filePath, encoding) => {
   try {
     if (encoding) {
@@ -74,6 +79,30 @@ ipcMain.handle("read-file", async (event, filePath, encoding) => {
   }
 });
 
+ipcMain.handle("write-file", async (event, filePath, data) => {
+  try {
+    // Binary data arrives as a Uint8Array, text as a string
+    const contents = typeof data === "string" ? data : Buffer.from(data);
+    await fs.promises.writeFile(filePath, contents);
+    return true;
+  } catch (error: any) {
+    throw new Error(`Failed to write file: ${error.message}`);
+  }
+});
+
+// Numbered frames of an image sequence, e.g. frame-00042.png
+ipcMain.handle("write-frame", async (event, directoryPath, index, data) => {
+  try {
+    await fs.promises.mkdir(directoryPath, { recursive: true });
+    const fileName = `frame-${String(index).padStart(5, "0")}.png`;
+    const filePath = path.join(directoryPath, fileName);
+    await fs.promises.writeFile(filePath, Buffer.from(data));
+    return filePath;
+  } catch (error: any) {
+    throw new Error(`Failed to write frame: ${error.message}`);
+  }
+});
+
 ipcMain.handle("list-directory", async (event, directoryPath) => {
   try {
     const entries = await fs.promises.readdir(directoryPath, {
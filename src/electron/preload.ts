@@ -8,9 +8,18 @@ contextBridge.exposeInMainWorld("electron", {
   showOpenDialog: (options: Electron.OpenDialogOptions) => {
     return ipcRenderer.invoke("show-open-dialog", options);
   },
+  showSaveDialog: (options: Electron.SaveDialogOptions) => {
+    return ipcRenderer.invoke("show-save-dialog", options);
+  },
   readFile: (filePath: string, encoding?: string) => {
     return ipcRenderer.invoke("read-file", filePath, encoding);
   },
+  writeFile: (filePath: string, data: string | Uint8Array) => {
+    return ipcRenderer.invoke("write-file", filePath, data);
+  },
+  writeFrame: (directoryPath: string, index: number, data: Uint8Array) => {
+    return ipcRenderer.invoke("write-frame", directoryPath, index, data);
+  },
   listDirectory: (directoryPath: string) => {
     return ipcRenderer.invoke("list-directory", directoryPath);
   },
@@ -0,0 +1,409 @@
+// ImprovisationService.ts
+import { Chord, Note, Scale } from "@tonaljs/tonal";
+import type { ChordInfo } from "./MusicTheoryService";
+import { RomanNumeralService, parseKeyName } from "./RomanNumeralService";
+
+// What a note does over the current chord
+export type NoteRole = "chord-tone" | "tension" | "avoid" | "outside";
+
+export interface NoteRoleInfo {
+  chroma: number; // 0 is C
+  name: string;
+  role: NoteRole;
+}
+
+export interface ScaleSuggestion {
+  name: string; // e.g. "D dorian"
+  notes: string[];
+  description: string;
+  keyFit: number; // Share of the scale's notes that belong to the key (0 to 1)
+  noteRoles: NoteRoleInfo[]; // All twelve pitch classes, C first
+}
+
+export interface NextChordSuggestion {
+  name: string;
+  romanNumeral: string | null;
+  notes: string[];
+  likelihood: number; // 0 to 1
+  reason: string;
+}
+
+export interface ImprovisationAdvice {
+  chordName: string;
+  keyName: string | null;
+  scales: ScaleSuggestion[]; // Best first
+  nextChords: NextChordSuggestion[]; // Most likely first
+}
+
+interface ChordScale {
+  scale: string; // Scale type, as accepted by Scale.get after the root
+  description: string;
+}
+
+// Scales to solo with over each chord type, most usual first
+const CHORD_SCALES: Record<string, ChordScale[]> = {
+  major: [
+    { scale: "major", description: "Ionian, the plain major sound" },
+    { scale: "lydian", description: "Brighter, with a raised 4th" },
+    { scale: "major pentatonic", description: "Safe, with no avoid notes" },
+    { scale: "mixolydian", description: "Bluesy, with a flat 7th" },
+  ],
+  "major seventh": [
+    { scale: "major", description: "Ionian, the plain major sound" },
+    { scale: "lydian", description: "Brighter, with a raised 4th" },
+    { scale: "major pentatonic", description: "Safe, with no avoid notes" },
+  ],
+  sixth: [
+    { scale: "major", description: "Ionian, the plain major sound" },
+    { scale: "major pentatonic", description: "Safe, with no avoid notes" },
+  ],
+  "dominant seventh": [
+    { scale: "mixolydian", description: "The inside dominant sound" },
+    { scale: "lydian dominant", description: "Raised 4th, no avoid notes" },
+    { scale: "bebop", description: "Mixolydian with a passing major 7th" },
+    {
+      scale: "half-whole diminished",
+      description: "Flat and sharp 9th, sharp 11th",
+    },
+    { scale: "altered", description: "Every tension altered, for resolving" },
+  ],
+  "suspended fourth": [
+    { scale: "mixolydian", description: "Keeps the suspended 4th" },
+    { scale: "major pentatonic", description: "Open and safe" },
+  ],
+  "suspended fourth seventh": [
+    { scale: "mixolydian", description: "Keeps the suspended 4th" },
+  ],
+  "suspended second": [
+    { scale: "major", description: "Ionian, the plain major sound" },
+    { scale: "major pentatonic", description: "Open and safe" },
+  ],
+  minor: [
+    { scale: "dorian", description: "Minor with a bright 6th" },
+    { scale: "minor", description: "Aeolian, the natural minor" },
+    { scale: "minor pentatonic", description: "Safe, with no avoid notes" },
+    { scale: "phrygian", description: "Dark, with a flat 2nd" },
+  ],
+  "minor seventh": [
+    { scale: "dorian", description: "Minor with a bright 6th" },
+    { scale: "minor", description: "Aeolian, the natural minor" },
+    { scale: "minor pentatonic", description: "Safe, with no avoid notes" },
+    { scale: "phrygian", description: "Dark, with a flat 2nd" },
+  ],
+  "minor/major seventh": [
+    { scale: "melodic minor", description: "Minor with a major 6th and 7th" },
+    { scale: "harmonic minor", description: "Minor with a major 7th" },
+  ],
+  "half-diminished": [
+    { scale: "locrian #2", description: "Locrian with a natural 9th" },
+    { scale: "locrian", description: "The diatonic half-diminished sound" },
+  ],
+  diminished: [
+    { scale: "locrian", description: "The diatonic leading-tone sound" },
+    { scale: "diminished", description: "Whole-half, symmetrical" },
+  ],
+  "diminished seventh": [
+    { scale: "diminished", description: "Whole-half, symmetrical" },
+  ],
+  augmented: [
+    { scale: "whole tone", description: "Symmetrical whole steps" },
+    { scale: "lydian augmented", description: "Lydian with a raised 5th" },
+  ],
+};
+
+// Likely next chords by scale degree, from common-practice root motion
+const NEXT_DEGREES: Record<number, Record<number, number>> = {
+  1: { 4: 0.3, 5: 0.25, 6: 0.2, 2: 0.15, 3: 0.1 },
+  2: { 5: 0.6, 7: 0.2, 4: 0.1, 1: 0.1 },
+  3: { 6: 0.5, 4: 0.3, 2: 0.2 },
+  4: { 5: 0.4, 1: 0.25, 2: 0.2, 7: 0.15 },
+  5: { 1: 0.7, 6: 0.2, 4: 0.1 },
+  6: { 2: 0.4, 4: 0.35, 5: 0.15, 3: 0.1 },
+  7: { 1: 0.7, 3: 0.2, 5: 0.1 },
+};
+
+const DEGREE_FUNCTIONS = [
+  "tonic",
+  "supertonic",
+  "mediant",
+  "subdominant",
+  "dominant",
+  "submediant",
+  "leading tone",
+];
+
+/**
+ * Suggests what to play over the current chord: scales that fit both the
+ * chord and the key, which notes are chord tones, tensions or avoid notes,
+ * and the chords most likely to come next.
+ */
+export class ImprovisationService {
+  private romanNumerals = new RomanNumeralService();
+
+  /**
+   * Advice for soloing over a chord, in a key when one is known
+   */
+  public advise(
+    chord: ChordInfo | null,
+    keyName: string | null
+  ): ImprovisationAdvice | null {
+    if (!chord) return null;
+
+    const [symbol] = chord.name.split("/");
+    const { tonic, type, notes } = Chord.get(symbol);
+    if (!tonic) return null;
+
+    return {
+      chordName: chord.name,
+      keyName,
+      scales: this.suggestScales(tonic, type, notes, keyName),
+      nextChords: keyName ? this.suggestNextChords(chord, notes, keyName) : [],
+    };
+  }
+
+  // Scales that hold the chord, those closest to the key first
+  private suggestScales(
+    root: string,
+    chordType: string,
+    chordNotes: string[],
+    keyName: string | null
+  ): ScaleSuggestion[] {
+    const keyScales = keyName ? this.getKeyScales(keyName) : [];
+    const keyChromas = [
+      ...new Set(keyScales.flatMap((scale) => this.toChromas(scale))),
+    ];
+    const requiredChromas = this.getRequiredChromas(root, chordNotes);
+    const isDominant = chordType.startsWith("dominant");
+
+    const candidates = (CHORD_SCALES[chordType] || []).map(
+      ({ scale, description }) => ({
+        name: `${root} ${scale}`,
+        notes: Scale.get(`${root} ${scale}`).notes,
+        description,
+      })
+    );
+
+    // The key's own scales, heard from the chord root, always get a look in
+    keyScales.forEach((scale, index) => {
+      const scaleName = this.getKeyScaleName(keyName!, index);
+      candidates.push({
+        name: `${scaleName} from ${root}`,
+        notes: this.rotateToRoot(scale, root),
+        description: `Stays inside ${scaleName}`,
+      });
+    });
+
+    const suggestions: ScaleSuggestion[] = [];
+
+    candidates.forEach(({ name, notes, description }) => {
+      if (notes.length === 0) return;
+
+      const chromas = this.toChromas(notes);
+      if (!requiredChromas.every((chroma) => chromas.includes(chroma))) return;
+
+      const duplicate = suggestions.some((suggestion) =>
+        this.sameSet(this.toChromas(suggestion.notes), chromas)
+      );
+      if (duplicate) return;
+
+      const inKey = chromas.filter((chroma) => keyChromas.includes(chroma));
+
+      suggestions.push({
+        name,
+        notes,
+        description,
+        keyFit: keyChromas.length > 0 ? inKey.length / chromas.length : 0,
+        noteRoles: this.getNoteRoles(notes, chordNotes, isDominant),
+      });
+    });
+
+    // Stable sort keeps the usual choice first among equally good fits
+    return suggestions
+      .map((suggestion, index) => ({ suggestion, index }))
+      .sort(
+        (a, b) =>
+          b.suggestion.keyFit - a.suggestion.keyFit || a.index - b.index
+      )
+      .map(({ suggestion }) => suggestion);
+  }
+
+  // Chord tones, tensions, avoid notes (a semitone above a chord tone) and
+  // notes outside the scale
+  private getNoteRoles(
+    scaleNotes: string[],
+    chordNotes: string[],
+    isDominant: boolean
+  ): NoteRoleInfo[] {
+    const chordChromas = this.toChromas(chordNotes);
+    const rootChroma = chordChromas[0];
+
+    return Array.from({ length: 12 }, (_, chroma) => {
+      const name =
+        [...chordNotes, ...scaleNotes].find((n) => Note.chroma(n) === chroma) ||
+        Note.pitchClass(Note.fromMidi(60 + chroma));
+
+      let role: NoteRole = "outside";
+      if (chordChromas.includes(chroma)) {
+        role = "chord-tone";
+      } else if (this.toChromas(scaleNotes).includes(chroma)) {
+        const belowIsChordTone = chordChromas.includes((chroma + 11) % 12);
+
+        // A flat 9th is a usual colour over a dominant
+        const isFlatNine = isDominant && chroma === (rootChroma + 1) % 12;
+        role = belowIsChordTone && !isFlatNine ? "avoid" : "tension";
+      }
+
+      return { chroma, name, role };
+    });
+  }
+
+  // Chords built on the degrees that usually follow this one
+  private suggestNextChords(
+    chord: ChordInfo,
+    chordNotes: string[],
+    keyName: string
+  ): NextChordSuggestion[] {
+    const likelihoods = this.getNextDegrees(chord);
+    const useSevenths = chordNotes.length >= 4;
+    const currentRoot = Note.chroma(chordNotes[0]);
+
+    return Object.entries(likelihoods)
+      .map(([degreeText, likelihood]) => {
+        const degree = Number(degreeText);
+        const notes = this.buildDiatonicChord(keyName, degree, useSevenths);
+        const [name] = Chord.detect(notes);
+        if (!name) return null;
+
+        const { tonic, intervals } = Chord.get(name);
+        const analysis = tonic
+          ? this.romanNumerals.analyse(tonic, intervals, keyName)
+          : null;
+
+        return {
+          name,
+          romanNumeral: analysis ? analysis.numeral : null,
+          notes,
+          likelihood,
+          reason: this.describeMotion(currentRoot, notes[0], degree),
+        };
+      })
+      .filter((suggestion): suggestion is NextChordSuggestion => !!suggestion)
+      .sort((a, b) => b.likelihood - a.likelihood);
+  }
+
+  // Degrees that follow the chord, with how often they do
+  private getNextDegrees(chord: ChordInfo): Record<number, number> {
+    if (chord.scaleDegree === null) return {};
+
+    // Secondary chords lead to the degree they tonicise
+    if (chord.functionType === "secondary") {
+      return { [chord.scaleDegree]: 0.8 };
+    }
+
+    // The Neapolitan leads to the dominant
+    if (chord.functionType === "neapolitan") {
+      return { 5: 0.8, 1: 0.2 };
+    }
+
+    return NEXT_DEGREES[chord.scaleDegree] || {};
+  }
+
+  // Stack thirds from the scale; minor keys take V and vii° from the
+  // harmonic minor
+  private buildDiatonicChord(
+    keyName: string,
+    degree: number,
+    seventh: boolean
+  ): string[] {
+    const { tonic, mode } = parseKeyName(keyName);
+    const scaleName =
+      mode === "minor" && (degree === 5 || degree === 7)
+        ? `${tonic} harmonic minor`
+        : keyName;
+    const scale = Scale.get(scaleName).notes;
+    if (scale.length !== 7) return [];
+
+    const steps = seventh ? [0, 2, 4, 6] : [0, 2, 4];
+    return steps.map((step) => scale[(degree - 1 + step) % 7]);
+  }
+
+  private describeMotion(
+    fromChroma: number | undefined,
+    toRoot: string,
+    degree: number
+  ): string {
+    const target = `to the ${DEGREE_FUNCTIONS[degree - 1]}`;
+    const toChroma = Note.chroma(toRoot);
+    if (fromChroma === undefined || toChroma === undefined) return target;
+
+    switch ((toChroma - fromChroma + 12) % 12) {
+      case 5:
+        return `Root falls a fifth ${target}`;
+      case 7:
+        return `Root rises a fifth ${target}`;
+      case 1:
+      case 2:
+        return `Root steps up ${target}`;
+      case 10:
+      case 11:
+        return `Root steps down ${target}`;
+      case 8:
+      case 9:
+        return `Root falls a third ${target}, sharing two notes`;
+      case 3:
+      case 4:
+        return `Root rises a third ${target}, sharing two notes`;
+      default:
+        return `Moves ${target}`;
+    }
+  }
+
+  // Scales that count as belonging to the key; minor keys also raise the
+  // 6th and 7th
+  private getKeyScales(keyName: string): string[][] {
+    const { mode } = parseKeyName(keyName);
+    const names =
+      mode === "minor"
+        ? [0, 1, 2].map((index) => this.getKeyScaleName(keyName, index))
+        : [keyName];
+
+    return names
+      .map((name) => Scale.get(name).notes)
+      .filter((notes) => notes.length > 0);
+  }
+
+  private getKeyScaleName(keyName: string, index: number): string {
+    const { tonic } = parseKeyName(keyName);
+    return [keyName, `${tonic} harmonic minor`, `${tonic} melodic minor`][
+      index
+    ];
+  }
+
+  // Chord tones a scale must contain; the fifth of a seventh chord may be
+  // altered, as the altered scale does over a dominant
+  private getRequiredChromas(root: string, chordNotes: string[]): number[] {
+    const fifth = Note.chroma(Note.transpose(root, "5P"));
+    const chromas = this.toChromas(chordNotes);
+    return chromas.length > 3
+      ? chromas.filter((chroma) => chroma !== fifth)
+      : chromas;
+  }
+
+  // Start a scale on the given note (D dorian from C major starting on D)
+  private rotateToRoot(scale: string[], root: string): string[] {
+    const rootChroma = Note.chroma(root);
+    const index = scale.findIndex((note) => Note.chroma(note) === rootChroma);
+    if (index === -1) return [];
+    return [...scale.slice(index), ...scale.slice(0, index)];
+  }
+
+  private toChromas(notes: string[]): number[] {
+    return notes
+      .map((note) => Note.chroma(note))
+      .filter((chroma): chroma is number => chroma !== undefined);
+  }
+
+  private sameSet(a: number[], b: number[]): boolean {
+    return a.length === b.length && a.every((chroma) => b.includes(chroma));
+  }
+}
@@ -1,149 +1,408 @@
 // KeyDetectionService.ts
-import { Note, Scale, Key, PcSet } from "@tonaljs/tonal";
+import { Key, Scale } from "@tonaljs/tonal";
 
-// Type for note data
-export interface NoteData {
-  id: string;
-  name: string;
-  midiNumber: number;
-  timestamp: number;
-  inKey: boolean;
-  velocity: number;
-}
+export type KeyMode =
+  | "major"
+  | "minor"
+  | "dorian"
+  | "phrygian"
+  | "lydian"
+  | "mixolydian"
+  | "locrian"
+  | "harmonic minor"
+  | "melodic minor";
 
-// Interface for detected key info
-export interface KeySignatureInfo {
-  keyName: string;
+export type KeyProfileName = "krumhansl" | "temperley";
+
+// A possible key with its fit to the recent notes
+export interface KeyCandidate {
+  keyName: string; // e.g. "F# minor"
+  tonic: string;
+  mode: KeyMode;
   notes: string[];
+  correlation: number; // -1 to 1
+  confidence: number; // 0 to 1
+}
+
+export interface ModulationEvent {
+  from: string | null; // null for the first key found
+  to: string;
+  time: number;
   confidence: number;
 }
 
+export type ModulationListener = (event: ModulationEvent) => void;
+
+export interface KeyDetectionOptions {
+  profile: KeyProfileName;
+  windowMs: number; // how far back notes count
+  minPitchClasses: number; // distinct pitch classes needed before guessing
+  switchMargin: number; // how much better a new key must fit to take over
+  modes: KeyMode[]; // modes to consider
+}
+
+type BaseMode = "major" | "minor";
+
+// Probe-tone profiles, tonic first
+const KEY_PROFILES: Record<KeyProfileName, Record<BaseMode, number[]>> = {
+  // Krumhansl & Kessler (1982)
+  krumhansl: {
+    major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+    minor: [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+  },
+  // Temperley (1999)
+  temperley: {
+    major: [5.0, 2.0, 3.5, 2.0, 4.5, 4.0, 2.0, 4.5, 2.0, 3.5, 1.5, 4.0],
+    minor: [5.0, 2.0, 3.5, 4.5, 2.0, 4.0, 2.0, 4.5, 3.5, 2.0, 1.5, 4.0],
+  },
+};
+
+// How each mode is built: the base profile it reshapes, its scale in
+// semitones, a small penalty so that major and minor win when the notes
+// fit equally well, and for church modes the degree of its parent major key
+interface ModeDefinition {
+  base: BaseMode;
+  steps: number[];
+  penalty: number;
+  parentDegree?: number;
+}
+
+const MODE_DEFINITIONS: Record<KeyMode, ModeDefinition> = {
+  major: { base: "major", steps: [0, 2, 4, 5, 7, 9, 11], penalty: 0 },
+  minor: { base: "minor", steps: [0, 2, 3, 5, 7, 8, 10], penalty: 0 },
+  dorian: {
+    base: "minor",
+    steps: [0, 2, 3, 5, 7, 9, 10],
+    penalty: 0.05,
+    parentDegree: 1,
+  },
+  phrygian: {
+    base: "minor",
+    steps: [0, 1, 3, 5, 7, 8, 10],
+    penalty: 0.05,
+    parentDegree: 2,
+  },
+  lydian: {
+    base: "major",
+    steps: [0, 2, 4, 6, 7, 9, 11],
+    penalty: 0.08,
+    parentDegree: 3,
+  },
+  mixolydian: {
+    base: "major",
+    steps: [0, 2, 4, 5, 7, 9, 10],
+    penalty: 0.05,
+    parentDegree: 4,
+  },
+  locrian: {
+    base: "minor",
+    steps: [0, 1, 3, 5, 6, 8, 10],
+    penalty: 0.15,
+    parentDegree: 6,
+  },
+  "harmonic minor": {
+    base: "minor",
+    steps: [0, 2, 3, 5, 7, 8, 11],
+    penalty: 0.02,
+  },
+  "melodic minor": {
+    base: "minor",
+    steps: [0, 2, 3, 5, 7, 9, 11],
+    penalty: 0.03,
+  },
+};
+
+// Conventional tonic spelling for each pitch class
+const MAJOR_TONICS = ["C", "Db", "D", "Eb", "E", "F", "F#", "G", "Ab", "A", "Bb", "B"];
+const MINOR_TONICS = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "Bb", "B"];
+
+// Notes shorter than this still count as if they lasted this long (ms)
+const MIN_NOTE_WEIGHT_MS = 100;
+
+const DEFAULT_OPTIONS: KeyDetectionOptions = {
+  profile: "krumhansl",
+  windowMs: 8000,
+  minPitchClasses: 3,
+  switchMargin: 0.05,
+  modes: Object.keys(MODE_DEFINITIONS) as KeyMode[],
+};
+
+interface NoteOccurrence {
+  midiNumber: number;
+  pitchClass: number;
+  velocity: number;
+  start: number;
+  end: number | null; // null while sounding
+}
+
+/**
+ * Finds the key of the recent music by correlating a duration- and
+ * velocity-weighted pitch-class histogram with key profiles for major,
+ * minor and the other modes.
+ *
+ * Only notes inside a sliding time window count, so the key follows
+ * modulations. The current key only changes when another key fits clearly
+ * better, which keeps passing chromatic notes from flipping it.
+ */
 export class KeyDetectionService {
-  // List of common key signatures we want to detect
-  private commonKeys = [
-    "C major",
-    "G major",
-    "D major",
-    "A major",
-    "E major",
-    "B major",
-    "F# major",
-    "Db major",
-    "Ab major",
-    "Eb major",
-    "Bb major",
-    "F major",
-    "A minor",
-    "E minor",
-    "B minor",
-    "F# minor",
-    "C# minor",
-    "G# minor",
-    "D# minor",
-    "Bb minor",
-    "F minor",
-    "C minor",
-    "G minor",
-    "D minor",
-  ];
-
-  // Current detected key
-  private currentKey: KeySignatureInfo | null = null;
-
-  // Detect the most likely key signature from a set of notes
-  public detectKey(notes: NoteData[]): KeySignatureInfo | null {
-    // If there are fewer than 3 notes, we don't have enough information
-    if (notes.length < 3) {
-      console.log("Not enough notes to detect key signature");
-      return null;
-    }
+  private options: KeyDetectionOptions;
+  private occurrences: NoteOccurrence[] = [];
+  private candidates: KeyCandidate[] = [];
+  private currentKey: KeyCandidate | null = null;
+  private modulations: ModulationEvent[] = [];
+  private listeners: ModulationListener[] = [];
+
+  constructor(options: Partial<KeyDetectionOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public getOptions(): KeyDetectionOptions {
+    return { ...this.options };
+  }
+
+  public setOptions(options: Partial<KeyDetectionOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
 
-    // Extract note names from the note data (remove octave information)
-    const noteNames = notes.map((n) => Note.get(n.name).pc);
-    console.log("Notes for key detection:", noteNames);
+  /**
+   * Register a note starting (velocity 0 to 1, time in ms)
+   */
+  public noteOn(midiNumber: number, velocity: number, time: number = Date.now()): void {
+    // A retriggered note ends the previous occurrence
+    this.noteOff(midiNumber, time);
 
-    // Use Tonal.js to detect possible scales
-    const scaleMatches = Scale.detect(noteNames);
-    console.log("Detected scales:", scaleMatches);
+    this.occurrences.push({
+      midiNumber,
+      pitchClass: ((midiNumber % 12) + 12) % 12,
+      velocity,
+      start: time,
+      end: null,
+    });
+  }
+
+  /**
+   * Register a note ending
+   */
+  public noteOff(midiNumber: number, time: number = Date.now()): void {
+    this.occurrences.forEach((occurrence) => {
+      if (occurrence.midiNumber === midiNumber && occurrence.end === null) {
+        occurrence.end = time;
+      }
+    });
+  }
 
-    // Filter to include only common key signatures
-    const keyMatches = this.getCommonKeyMatches(scaleMatches);
-    console.log("Common key matches:", keyMatches);
+  /**
+   * Re-rank the keys for the window ending at the given time and follow
+   * any modulation; returns the ranked candidates
+   */
+  public update(time: number = Date.now()): KeyCandidate[] {
+    this.pruneOccurrences(time);
 
-    if (keyMatches.length === 0) {
-      return null;
+    const histogram = this.getPitchClassWeights(time);
+    const distinctPitchClasses = histogram.filter((weight) => weight > 0).length;
+
+    if (distinctPitchClasses < this.options.minPitchClasses) {
+      this.candidates = [];
+      return this.candidates;
     }
 
-    // Calculate confidence score for each key
-    const keysWithConfidence = keyMatches.map((keyName) => {
-      const scale = Scale.get(keyName);
-      const scaleNotes = scale.notes;
+    this.candidates = this.rankKeys(histogram);
+    this.followModulation(time);
+    return this.candidates;
+  }
+
+  /**
+   * Keys ranked by how well they fit, best first
+   */
+  public getCandidates(): KeyCandidate[] {
+    return this.candidates;
+  }
+
+  /**
+   * The key currently in force (changes only on a clear modulation)
+   */
+  public getCurrentKey(): KeyCandidate | null {
+    if (!this.currentKey) return null;
+
+    // Report the current key with its latest fit
+    return (
+      this.candidates.find((c) => c.keyName === this.currentKey!.keyName) ||
+      this.currentKey
+    );
+  }
+
+  /**
+   * Key changes since the last reset, oldest first
+   */
+  public getModulations(): ModulationEvent[] {
+    return [...this.modulations];
+  }
+
+  /**
+   * Subscribe to key changes; returns an unsubscribe function
+   */
+  public onModulation(listener: ModulationListener): () => void {
+    this.listeners.push(listener);
 
-      // Count how many played notes are in this key
-      const matchingNotes = noteNames.filter((note) =>
-        scaleNotes.includes(note)
-      );
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
 
-      // Calculate confidence score
-      const confidence = matchingNotes.length / noteNames.length;
+  /**
+   * Forget all notes and the current key
+   */
+  public reset(): void {
+    this.occurrences = [];
+    this.candidates = [];
+    this.currentKey = null;
+    this.modulations = [];
+  }
+
+  // Drop notes that ended before the window
+  private pruneOccurrences(time: number): void {
+    const windowStart = time - this.options.windowMs;
+    this.occurrences = this.occurrences.filter(
+      (occurrence) => occurrence.end === null || occurrence.end >= windowStart
+    );
+  }
 
-      return {
-        keyName: keyName,
-        notes: scaleNotes,
-        confidence: confidence,
-      };
+  // Sum of (time sounding inside the window × loudness) per pitch class
+  private getPitchClassWeights(time: number): number[] {
+    const windowStart = time - this.options.windowMs;
+    const weights = new Array(12).fill(0);
+
+    this.occurrences.forEach((occurrence) => {
+      const start = Math.max(occurrence.start, windowStart);
+      const end = occurrence.end === null ? time : occurrence.end;
+      const duration = Math.max(end - start, MIN_NOTE_WEIGHT_MS);
+
+      // Soft notes still count, loud ones count more
+      const loudness = 0.5 + 0.5 * occurrence.velocity;
+
+      weights[occurrence.pitchClass] += duration * loudness;
     });
 
-    // Sort by confidence score
-    keysWithConfidence.sort((a, b) => b.confidence - a.confidence);
+    return weights;
+  }
+
+  // Correlate the histogram with every key in every enabled mode
+  private rankKeys(histogram: number[]): KeyCandidate[] {
+    const candidates: KeyCandidate[] = [];
+
+    this.options.modes.forEach((mode) => {
+      const profile = this.getModeProfile(mode);
+      const { penalty } = MODE_DEFINITIONS[mode];
+
+      for (let tonicPc = 0; tonicPc < 12; tonicPc++) {
+        // Rotate the profile so its first entry sits on the tonic
+        const rotated = histogram.map(
+          (_, pc) => profile[(pc - tonicPc + 12) % 12]
+        );
+        const correlation = this.correlate(histogram, rotated) - penalty;
+        const tonic = this.spellTonic(mode, tonicPc);
+        const keyName = `${tonic} ${mode}`;
+
+        candidates.push({
+          keyName,
+          tonic,
+          mode,
+          notes: Scale.get(keyName).notes,
+          correlation,
+          confidence: Math.max(0, correlation),
+        });
+      }
+    });
 
-    // Take the key with highest confidence
-    this.currentKey = keysWithConfidence[0];
-    return this.currentKey;
+    return candidates.sort((a, b) => b.correlation - a.correlation);
   }
 
-  // Check if a note is in the current key signature
-  public isNoteInKey(noteName: string): boolean {
-    if (!this.currentKey) {
-      return true; // If no key detected, consider all notes in key
-    }
+  // Move the base profile's weights degree by degree onto the mode's scale;
+  // notes outside the scale share the base profile's average chromatic weight
+  private getModeProfile(mode: KeyMode): number[] {
+    const { base, steps } = MODE_DEFINITIONS[mode];
+    const baseProfile = KEY_PROFILES[this.options.profile][base];
+    const baseSteps = MODE_DEFINITIONS[base].steps;
 
-    // Get pitch class of the note (remove octave)
-    const pitchClass = Note.get(noteName).pc;
+    const chromatic = baseProfile.filter((_, pc) => !baseSteps.includes(pc));
+    const chromaticWeight =
+      chromatic.reduce((sum, v) => sum + v, 0) / chromatic.length;
 
-    // Check if the note is in the key's scale
-    return this.currentKey.notes.includes(pitchClass);
+    const profile = new Array(12).fill(chromaticWeight);
+    steps.forEach((step, degree) => {
+      profile[step] = baseProfile[baseSteps[degree]];
+    });
+    return profile;
   }
 
-  // Process notes to add inKey property
-  public processNotes(notes: NoteData[]): NoteData[] {
-    // First detect the key
-    this.detectKey(notes);
+  // Spell a church mode's tonic from its parent major key (D dorian, not
+  // Ebb dorian); the minor scales use the usual minor key spelling
+  private spellTonic(mode: KeyMode, tonicPc: number): string {
+    const { base, parentDegree } = MODE_DEFINITIONS[mode];
+
+    if (parentDegree !== undefined) {
+      const parentPc =
+        (tonicPc - MODE_DEFINITIONS.major.steps[parentDegree] + 12) % 12;
+      return Key.majorKey(MAJOR_TONICS[parentPc]).scale[parentDegree];
+    }
+
+    return base === "major" ? MAJOR_TONICS[tonicPc] : MINOR_TONICS[tonicPc];
+  }
+
+  // Switch key when a different key fits clearly better than the current one
+  private followModulation(time: number): void {
+    const best = this.candidates[0];
+    if (!best) return;
 
-    // If we couldn't detect a key, all notes are considered in key
     if (!this.currentKey) {
-      return notes.map((note) => ({
-        ...note,
-        inKey: true,
-      }));
+      this.changeKey(best, time);
+      return;
     }
 
-    // Otherwise, mark each note as in key or not
-    return notes.map((note) => ({
-      ...note,
-      inKey: this.isNoteInKey(note.name),
-    }));
+    if (best.keyName === this.currentKey.keyName) return;
+
+    const current = this.candidates.find(
+      (c) => c.keyName === this.currentKey!.keyName
+    );
+    const currentCorrelation = current ? current.correlation : -1;
+
+    if (best.correlation - currentCorrelation >= this.options.switchMargin) {
+      this.changeKey(best, time);
+    }
   }
 
-  // Get the current detected key
-  public getCurrentKey(): KeySignatureInfo | null {
-    return this.currentKey;
+  private changeKey(key: KeyCandidate, time: number): void {
+    const event: ModulationEvent = {
+      from: this.currentKey ? this.currentKey.keyName : null,
+      to: key.keyName,
+      time,
+      confidence: key.confidence,
+    };
+
+    this.currentKey = key;
+    this.modulations.push(event);
+    this.listeners.forEach((listener) => listener(event));
   }
 
-  // Filter scale matches to only include common key signatures
-  private getCommonKeyMatches(scaleMatches: string[]): string[] {
-    return scaleMatches.filter((scale) => {
-      return this.commonKeys.includes(scale);
-    });
+  // Pearson correlation of two equal-length vectors
+  private correlate(a: number[], b: number[]): number {
+    const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+    const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      const da = a[i] - meanA;
+      const db = b[i] - meanB;
+      covariance += da * db;
+      varianceA += da * da;
+      varianceB += db * db;
+    }
+
+    if (varianceA === 0 || varianceB === 0) return 0;
+    return covariance / Math.sqrt(varianceA * varianceB);
   }
 }
+
@@ -0,0 +1,447 @@
+// MidiFileService.ts
+
+// Channel events captured from a performance
+export type MidiEventType = "noteon" | "noteoff" | "controlchange";
+
+export interface RecordedMidiEvent {
+  type: MidiEventType;
+  time: number; // milliseconds from the start of the take
+  channel: number; // 1 to 16
+  number: number; // note number or controller number
+  value: number; // velocity (0 to 1) for notes, raw value (0 to 127) for controllers
+}
+
+export type MidiFileFormat = 0 | 1;
+
+export interface MidiFileOptions {
+  format: MidiFileFormat;
+  ticksPerQuarter: number;
+  bpm: number;
+}
+
+const DEFAULT_OPTIONS: MidiFileOptions = {
+  format: 1,
+  ticksPerQuarter: 480,
+  bpm: 120,
+};
+
+/**
+ * Encode recorded events as a Standard MIDI File.
+ *
+ * Format 0 writes a single track. Format 1 writes a conductor track holding
+ * the tempo followed by one track per MIDI channel used in the take.
+ */
+export function encodeMidiFile(
+  events: RecordedMidiEvent[],
+  options: Partial<MidiFileOptions> = {}
+): Uint8Array {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const sorted = [...events].sort((a, b) => a.time - b.time);
+  const msPerTick = 60000 / settings.bpm / settings.ticksPerQuarter;
+
+  const tempoEvent = {
+    tick: 0,
+    bytes: tempoMetaEvent(settings.bpm),
+  };
+
+  const toTrackEvents = (trackEvents: RecordedMidiEvent[]) =>
+    trackEvents.map((event) => ({
+      tick: Math.round(event.time / msPerTick),
+      bytes: channelEventBytes(event),
+    }));
+
+  const tracks: number[][] = [];
+
+  if (settings.format === 0) {
+    tracks.push(encodeTrack([tempoEvent, ...toTrackEvents(sorted)]));
+  } else {
+    tracks.push(encodeTrack([tempoEvent]));
+
+    const channels = [...new Set(sorted.map((event) => event.channel))].sort(
+      (a, b) => a - b
+    );
+    channels.forEach((channel) => {
+      const channelEvents = sorted.filter((event) => event.channel === channel);
+      tracks.push(encodeTrack(toTrackEvents(channelEvents)));
+    });
+  }
+
+  const header = [
+    ...ascii("MThd"),
+    ...uint32(6),
+    ...uint16(settings.format),
+    ...uint16(tracks.length),
+    ...uint16(settings.ticksPerQuarter),
+  ];
+
+  const bytes = header.concat(...tracks);
+  return new Uint8Array(bytes);
+}
+
+// Build a complete MTrk chunk from absolute-tick events
+function encodeTrack(events: { tick: number; bytes: number[] }[]): number[] {
+  const data: number[] = [];
+  let lastTick = 0;
+
+  events.forEach((event) => {
+    data.push(...variableLengthQuantity(event.tick - lastTick), ...event.bytes);
+    lastTick = event.tick;
+  });
+
+  // End of track meta event
+  data.push(0x00, 0xff, 0x2f, 0x00);
+
+  return [...ascii("MTrk"), ...uint32(data.length), ...data];
+}
+
+// Raw bytes for a channel voice message
+function channelEventBytes(event: RecordedMidiEvent): number[] {
+  const channel = (event.channel - 1) & 0x0f;
+
+  switch (event.type) {
+    case "noteon":
+      return [
+        0x90 | channel,
+        event.number & 0x7f,
+        Math.max(1, Math.round(event.value * 127)) & 0x7f,
+      ];
+    case "noteoff":
+      return [
+        0x80 | channel,
+        event.number & 0x7f,
+        Math.round(event.value * 127) & 0x7f,
+      ];
+    case "controlchange":
+      return [0xb0 | channel, event.number & 0x7f, event.value & 0x7f];
+  }
+}
+
+// Set Tempo meta event (microseconds per quarter note)
+function tempoMetaEvent(bpm: number): number[] {
+  const microseconds = Math.round(60000000 / bpm);
+  return [
+    0xff,
+    0x51,
+    0x03,
+    (microseconds >> 16) & 0xff,
+    (microseconds >> 8) & 0xff,
+    microseconds & 0xff,
+  ];
+}
+
+function variableLengthQuantity(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let remaining = Math.floor(value / 128);
+
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function uint16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text).map((char) => char.charCodeAt(0));
+}
+
+// Result of parsing a Standard MIDI File
+export interface ParsedMidiFile {
+  format: number;
+  trackCount: number;
+  ticksPerQuarter: number;
+  trackNames: string[];
+  initialBpm: number;
+  duration: number; // milliseconds
+  events: RecordedMidiEvent[];
+}
+
+interface TickEvent {
+  tick: number;
+  order: number;
+  event: Omit<RecordedMidiEvent, "time">;
+}
+
+interface TempoChange {
+  tick: number;
+  microsecondsPerQuarter: number;
+}
+
+/**
+ * Parse a Standard MIDI File (format 0, 1 or 2) into timed channel events.
+ *
+ * All tracks are merged into a single list, running status is honoured and
+ * tempo meta events from any track are applied when converting ticks to
+ * milliseconds.
+ */
+export function parseMidiFile(data: Uint8Array): ParsedMidiFile {
+  const reader = new ByteReader(data);
+
+  if (reader.readAscii(4) !== "MThd") {
+    throw new Error("Not a Standard MIDI File");
+  }
+
+  const headerLength = reader.readUint32();
+  const format = reader.readUint16();
+  const trackCount = reader.readUint16();
+  const division = reader.readUint16();
+  reader.skip(headerLength - 6);
+
+  // SMPTE timing uses frames per second and ticks per frame instead of PPQ
+  const isSmpte = (division & 0x8000) !== 0;
+  const ticksPerQuarter = isSmpte ? 0 : division;
+  const smpteTicksPerSecond = isSmpte
+    ? (256 - (division >> 8)) * (division & 0xff)
+    : 0;
+
+  const tickEvents: TickEvent[] = [];
+  const tempoChanges: TempoChange[] = [];
+  const trackNames: string[] = [];
+  let order = 0;
+
+  for (let track = 0; track < trackCount && !reader.isAtEnd(); track++) {
+    const chunkType = reader.readAscii(4);
+    const chunkLength = reader.readUint32();
+    const chunkEnd = reader.offset + chunkLength;
+
+    // Skip unknown chunks as the spec requires
+    if (chunkType !== "MTrk") {
+      reader.skip(chunkLength);
+      track--;
+      continue;
+    }
+
+    let tick = 0;
+    let runningStatus = 0;
+    let trackName = "";
+
+    while (reader.offset < chunkEnd) {
+      tick += reader.readVariableLength();
+
+      let status = reader.peekUint8();
+      if (status & 0x80) {
+        reader.skip(1);
+      } else if (runningStatus) {
+        // Running status: reuse the previous status byte
+        status = runningStatus;
+      } else {
+        throw new Error(`Missing status byte in track ${track + 1}`);
+      }
+
+      if (status === 0xff) {
+        // Meta event
+        const metaType = reader.readUint8();
+        const length = reader.readVariableLength();
+        const metaData = reader.readBytes(length);
+
+        if (metaType === 0x51 && length === 3) {
+          tempoChanges.push({
+            tick,
+            microsecondsPerQuarter:
+              (metaData[0] << 16) | (metaData[1] << 8) | metaData[2],
+          });
+        } else if (metaType === 0x03 && !trackName) {
+          trackName = String.fromCharCode(...metaData);
+        } else if (metaType === 0x2f) {
+          break;
+        }
+        continue;
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        // System exclusive events are not needed for analysis
+        reader.skip(reader.readVariableLength());
+        continue;
+      }
+
+      runningStatus = status;
+      const messageType = status & 0xf0;
+      const channel = (status & 0x0f) + 1;
+
+      switch (messageType) {
+        case 0x80:
+        case 0x90: {
+          const note = reader.readUint8();
+          const velocity = reader.readUint8();
+          // A note on with zero velocity is a note off
+          const isNoteOn = messageType === 0x90 && velocity > 0;
+          tickEvents.push({
+            tick,
+            order: order++,
+            event: {
+              type: isNoteOn ? "noteon" : "noteoff",
+              channel,
+              number: note,
+              value: velocity / 127,
+            },
+          });
+          break;
+        }
+        case 0xb0: {
+          const controller = reader.readUint8();
+          const value = reader.readUint8();
+          tickEvents.push({
+            tick,
+            order: order++,
+            event: { type: "controlchange", channel, number: controller, value },
+          });
+          break;
+        }
+        case 0xa0:
+        case 0xe0:
+          // Polyphonic aftertouch and pitch bend carry two data bytes
+          reader.skip(2);
+          break;
+        case 0xc0:
+        case 0xd0:
+          // Program change and channel aftertouch carry one data byte
+          reader.skip(1);
+          break;
+        default:
+          throw new Error(`Unknown MIDI status ${status.toString(16)}`);
+      }
+    }
+
+    reader.offset = chunkEnd;
+    trackNames.push(trackName);
+  }
+
+  tickEvents.sort((a, b) => a.tick - b.tick || a.order - b.order);
+  tempoChanges.sort((a, b) => a.tick - b.tick);
+
+  const tickToMs = isSmpte
+    ? (tick: number) => (tick / smpteTicksPerSecond) * 1000
+    : createTempoMap(tempoChanges, ticksPerQuarter);
+
+  const events = tickEvents.map(({ tick, event }) => ({
+    ...event,
+    time: tickToMs(tick),
+  }));
+
+  const initialTempo =
+    tempoChanges.length > 0 && tempoChanges[0].tick === 0
+      ? tempoChanges[0].microsecondsPerQuarter
+      : 500000;
+
+  return {
+    format,
+    trackCount,
+    ticksPerQuarter,
+    trackNames,
+    initialBpm: Math.round(60000000 / initialTempo),
+    duration: events.length > 0 ? events[events.length - 1].time : 0,
+    events,
+  };
+}
+
+// Build a tick to millisecond converter that follows tempo changes
+function createTempoMap(
+  tempoChanges: TempoChange[],
+  ticksPerQuarter: number
+): (tick: number) => number {
+  // Precompute the elapsed time at each tempo change (default 120 BPM)
+  const segments: { tick: number; ms: number; msPerTick: number }[] = [
+    { tick: 0, ms: 0, msPerTick: 500000 / 1000 / ticksPerQuarter },
+  ];
+
+  tempoChanges.forEach((change) => {
+    const last = segments[segments.length - 1];
+    const ms = last.ms + (change.tick - last.tick) * last.msPerTick;
+    const msPerTick = change.microsecondsPerQuarter / 1000 / ticksPerQuarter;
+
+    if (change.tick === last.tick) {
+      last.msPerTick = msPerTick;
+    } else {
+      segments.push({ tick: change.tick, ms, msPerTick });
+    }
+  });
+
+  return (tick: number) => {
+    let segment = segments[0];
+    for (const candidate of segments) {
+      if (candidate.tick > tick) break;
+      segment = candidate;
+    }
+    return segment.ms + (tick - segment.tick) * segment.msPerTick;
+  };
+}
+
+// Sequential big-endian reader over the file bytes
+class ByteReader {
+  public offset: number = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  public isAtEnd(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  public skip(count: number): void {
+    this.offset += count;
+  }
+
+  public peekUint8(): number {
+    this.ensureAvailable(1);
+    return this.data[this.offset];
+  }
+
+  public readUint8(): number {
+    this.ensureAvailable(1);
+    return this.data[this.offset++];
+  }
+
+  public readUint16(): number {
+    return (this.readUint8() << 8) | this.readUint8();
+  }
+
+  public readUint32(): number {
+    return (
+      ((this.readUint8() << 24) >>> 0) +
+      (this.readUint8() << 16) +
+      (this.readUint8() << 8) +
+      this.readUint8()
+    );
+  }
+
+  public readVariableLength(): number {
+    let value = 0;
+    let byte: number;
+
+    do {
+      byte = this.readUint8();
+      value = value * 128 + (byte & 0x7f);
+    } while (byte & 0x80);
+
+    return value;
+  }
+
+  public readBytes(count: number): Uint8Array {
+    this.ensureAvailable(count);
+    const bytes = this.data.subarray(this.offset, this.offset + count);
+    this.offset += count;
+    return bytes;
+  }
+
+  public readAscii(count: number): string {
+    return String.fromCharCode(...this.readBytes(count));
+  }
+
+  private ensureAvailable(count: number): void {
+    if (this.offset + count > this.data.length) {
+      throw new Error("Unexpected end of MIDI file");
+    }
+  }
+}
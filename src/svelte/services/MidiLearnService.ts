@@ -0,0 +1,195 @@
+// src/svelte/services/MidiLearnService.ts
+
+// Where a mapping applies: only while one preset is loaded, or always
+export type MappingScope = "preset" | "global";
+
+export interface MidiMapping {
+  controller: number;
+  channel: number | null; // null matches any channel
+  parameter: string;
+  scope: MappingScope;
+}
+
+// A mapped controller moved: the parameter to set and the value (0 to 1)
+export interface MappedValue {
+  parameter: string;
+  value: number;
+}
+
+interface StoredMappings {
+  global: MidiMapping[];
+  presets: Record<string, MidiMapping[]>;
+}
+
+const STORAGE_KEY = "synthMidiMappings";
+
+/**
+ * Binds MIDI controllers to synth parameters ("MIDI learn").
+ *
+ * Preset mappings take priority over global ones for the same controller.
+ * Mappings are saved to localStorage as soon as they change.
+ */
+export class MidiLearnService {
+  private mappings: StoredMappings;
+  private currentPreset: string = "";
+
+  // Parameter waiting for the next controller, if any
+  private learnParameter: string | null = null;
+  private learnScope: MappingScope = "preset";
+
+  constructor() {
+    this.mappings = this.loadMappings();
+  }
+
+  /**
+   * Set the preset whose mappings are active
+   */
+  public setPreset(presetName: string): void {
+    this.currentPreset = presetName;
+  }
+
+  /**
+   * Bind the next incoming controller to a parameter
+   */
+  public startLearning(parameter: string, scope: MappingScope = "preset"): void {
+    this.learnParameter = parameter;
+    this.learnScope = scope;
+  }
+
+  public cancelLearning(): void {
+    this.learnParameter = null;
+  }
+
+  public get learningParameter(): string | null {
+    return this.learnParameter;
+  }
+
+  /**
+   * Handle a control change (raw value 0 to 127).
+   *
+   * While learning, the controller is bound and nothing is returned.
+   * Otherwise returns the parameters mapped to this controller.
+   */
+  public handleControlChange(
+    controller: number,
+    value: number,
+    channel: number
+  ): MappedValue[] {
+    if (this.learnParameter) {
+      this.bind(this.learnParameter, controller, channel, this.learnScope);
+      this.learnParameter = null;
+      return [];
+    }
+
+    return this.getActiveMappings()
+      .filter(
+        (mapping) =>
+          mapping.controller === controller &&
+          (mapping.channel === null || mapping.channel === channel)
+      )
+      .map((mapping) => ({ parameter: mapping.parameter, value: value / 127 }));
+  }
+
+  /**
+   * Bind a controller to a parameter, replacing earlier bindings of either
+   */
+  public bind(
+    parameter: string,
+    controller: number,
+    channel: number | null,
+    scope: MappingScope
+  ): void {
+    const list = this.getScopeList(scope);
+    const remaining = list.filter(
+      (mapping) =>
+        mapping.parameter !== parameter && mapping.controller !== controller
+    );
+    remaining.push({ controller, channel, parameter, scope });
+    this.setScopeList(scope, remaining);
+    this.saveMappings();
+  }
+
+  /**
+   * Remove a parameter's binding in both scopes
+   */
+  public clearMapping(parameter: string): void {
+    this.setScopeList(
+      "global",
+      this.mappings.global.filter((mapping) => mapping.parameter !== parameter)
+    );
+    if (this.currentPreset) {
+      this.setScopeList(
+        "preset",
+        this.getScopeList("preset").filter(
+          (mapping) => mapping.parameter !== parameter
+        )
+      );
+    }
+    this.saveMappings();
+  }
+
+  /**
+   * Get the mapping that currently drives a parameter
+   */
+  public getMapping(parameter: string): MidiMapping | null {
+    return (
+      this.getActiveMappings().find(
+        (mapping) => mapping.parameter === parameter
+      ) || null
+    );
+  }
+
+  /**
+   * Mappings in effect for the current preset (preset ones first)
+   */
+  public getActiveMappings(): MidiMapping[] {
+    const presetMappings = this.getScopeList("preset");
+    const overridden = new Set(presetMappings.map((m) => m.controller));
+    const presetParameters = new Set(presetMappings.map((m) => m.parameter));
+
+    const globalMappings = this.mappings.global.filter(
+      (mapping) =>
+        !overridden.has(mapping.controller) &&
+        !presetParameters.has(mapping.parameter)
+    );
+
+    return [...presetMappings, ...globalMappings];
+  }
+
+  private getScopeList(scope: MappingScope): MidiMapping[] {
+    if (scope === "global") return this.mappings.global;
+    return this.mappings.presets[this.currentPreset] || [];
+  }
+
+  private setScopeList(scope: MappingScope, list: MidiMapping[]): void {
+    if (scope === "global") {
+      this.mappings.global = list;
+    } else if (this.currentPreset) {
+      this.mappings.presets[this.currentPreset] = list;
+    }
+  }
+
+  private loadMappings(): StoredMappings {
+    try {
+      const json = localStorage.getItem(STORAGE_KEY);
+      if (json) {
+        const stored = JSON.parse(json);
+        return {
+          global: stored.global || [],
+          presets: stored.presets || {},
+        };
+      }
+    } catch (error) {
+      console.error("Error loading MIDI mappings:", error);
+    }
+    return { global: [], presets: {} };
+  }
+
+  private saveMappings(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.mappings));
+    } catch (error) {
+      console.error("Error saving MIDI mappings:", error);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+// src/svelte/services/MidiOutputService.ts
+import type { Output } from "webmidi";
+import { getMidiService } from "./MidiService";
+
+// One destination for the synth's note stream
+export interface MidiRoute {
+  id: string;
+  outputId: string;
+  channel: number | null; // 1 to 16, or null to keep the source channel
+}
+
+interface SoundingNote {
+  routeId: string;
+  outputId: string;
+  channel: number;
+  note: number;
+}
+
+const ALL_CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+/**
+ * Forwards notes and controllers to external MIDI outputs (MIDI thru),
+ * remapping the channel per route.
+ */
+export class MidiOutputService {
+  private routes: MidiRoute[] = [];
+  private nextRouteId: number = 1;
+
+  // Notes sent to an output that have not been released yet
+  private soundingNotes: Map<string, SoundingNote> = new Map();
+
+  /**
+   * Get the available MIDI outputs
+   */
+  public getOutputs(): Output[] {
+    return getMidiService().getOutputs();
+  }
+
+  public getRoutes(): MidiRoute[] {
+    return this.routes.map((route) => ({ ...route }));
+  }
+
+  public hasRoutes(): boolean {
+    return this.routes.length > 0;
+  }
+
+  /**
+   * Add a route to an output; returns the new route
+   */
+  public addRoute(outputId: string, channel: number | null = null): MidiRoute {
+    const route: MidiRoute = {
+      id: `route-${this.nextRouteId++}`,
+      outputId,
+      channel,
+    };
+    this.routes.push(route);
+    return { ...route };
+  }
+
+  /**
+   * Change a route's output or channel, releasing its notes first
+   */
+  public updateRoute(
+    routeId: string,
+    changes: Partial<Omit<MidiRoute, "id">>
+  ): void {
+    const route = this.routes.find((r) => r.id === routeId);
+    if (!route) return;
+
+    this.releaseRoute(routeId);
+    Object.assign(route, changes);
+  }
+
+  /**
+   * Remove a route, releasing its notes first
+   */
+  public removeRoute(routeId: string): void {
+    this.releaseRoute(routeId);
+    this.routes = this.routes.filter((r) => r.id !== routeId);
+  }
+
+  /**
+   * Send a note on to every route
+   */
+  public noteOn(note: number, velocity: number, sourceChannel: number = 1): void {
+    if (!this.isValidNote(note)) return;
+
+    this.forEachRoute(sourceChannel, (output, channel, route) => {
+      output.sendNoteOn(note, { channels: channel, attack: velocity });
+      this.soundingNotes.set(`${route.id}:${channel}:${note}`, {
+        routeId: route.id,
+        outputId: route.outputId,
+        channel,
+        note,
+      });
+    });
+  }
+
+  /**
+   * Send a note off to every route
+   */
+  public noteOff(note: number, sourceChannel: number = 1): void {
+    if (!this.isValidNote(note)) return;
+
+    this.forEachRoute(sourceChannel, (output, channel, route) => {
+      output.sendNoteOff(note, { channels: channel });
+      this.soundingNotes.delete(`${route.id}:${channel}:${note}`);
+    });
+  }
+
+  /**
+   * Send a control change (raw value 0 to 127) to every route
+   */
+  public controlChange(
+    controller: number,
+    value: number,
+    sourceChannel: number = 1
+  ): void {
+    this.forEachRoute(sourceChannel, (output, channel) => {
+      output.sendControlChange(controller, value, { channels: channel });
+    });
+  }
+
+  /**
+   * Send pitch bend (-1 to 1) to every route
+   */
+  public pitchBend(value: number, sourceChannel: number = 1): void {
+    this.forEachRoute(sourceChannel, (output, channel) => {
+      output.sendPitchBend(value, { channels: channel });
+    });
+  }
+
+  /**
+   * Send aftertouch (0 to 1) to every route; with a note it is polyphonic
+   */
+  public aftertouch(
+    value: number,
+    note: number | null,
+    sourceChannel: number = 1
+  ): void {
+    this.forEachRoute(sourceChannel, (output, channel) => {
+      if (note === null) {
+        output.sendChannelAftertouch(value, { channels: channel });
+      } else if (this.isValidNote(note)) {
+        output.sendKeyAftertouch(note, value, { channels: channel });
+      }
+    });
+  }
+
+  /**
+   * Release every note on every channel of every routed output
+   */
+  public panic(): void {
+    const outputIds = new Set(this.routes.map((route) => route.outputId));
+
+    outputIds.forEach((outputId) => {
+      const output = this.findOutput(outputId);
+      if (!output) return;
+
+      try {
+        output.sendAllNotesOff({ channels: ALL_CHANNELS });
+        output.sendAllSoundOff({ channels: ALL_CHANNELS });
+        output.sendResetAllControllers({ channels: ALL_CHANNELS });
+      } catch (error) {
+        console.error("Error sending panic to MIDI output:", error);
+      }
+    });
+
+    this.soundingNotes.clear();
+  }
+
+  /**
+   * Release held notes and drop all routes
+   */
+  public destroy(): void {
+    this.routes.forEach((route) => this.releaseRoute(route.id));
+    this.routes = [];
+  }
+
+  // Send note offs for everything still sounding on one route
+  private releaseRoute(routeId: string): void {
+    this.soundingNotes.forEach((sounding, key) => {
+      if (sounding.routeId !== routeId) return;
+
+      const output = this.findOutput(sounding.outputId);
+      if (output) {
+        try {
+          output.sendNoteOff(sounding.note, { channels: sounding.channel });
+        } catch (error) {
+          console.error("Error releasing note on MIDI output:", error);
+        }
+      }
+      this.soundingNotes.delete(key);
+    });
+  }
+
+  private forEachRoute(
+    sourceChannel: number,
+    send: (output: Output, channel: number, route: MidiRoute) => void
+  ): void {
+    this.routes.forEach((route) => {
+      const output = this.findOutput(route.outputId);
+      if (!output) return;
+
+      try {
+        send(output, route.channel ?? sourceChannel, route);
+      } catch (error) {
+        console.error(`Error sending to MIDI output ${output.name}:`, error);
+      }
+    });
+  }
+
+  private findOutput(outputId: string): Output | undefined {
+    return this.getOutputs().find((output) => output.id === outputId);
+  }
+
+  private isValidNote(note: number): boolean {
+    return note >= 0 && note <= 127;
+  }
+}
@@ -0,0 +1,232 @@
+// MidiPlayer.ts
+import type { RecordedMidiEvent } from "./MidiFileService";
+import { PEDAL_CONTROLLERS, isPedalDown } from "./PedalService";
+
+export type PlaybackHandler = (event: RecordedMidiEvent) => void;
+
+export type TransportState = "stopped" | "playing" | "paused";
+
+export interface TransportStatus {
+  state: TransportState;
+  position: number; // milliseconds in file time
+  duration: number; // milliseconds in file time
+  tempoScale: number;
+  title: string;
+}
+
+export type TransportListener = (status: TransportStatus) => void;
+
+// How often the transport advances (ms)
+const TICK_INTERVAL = 10;
+
+export class MidiPlayer {
+  private events: RecordedMidiEvent[] = [];
+  private title: string = "";
+  private nextIndex: number = 0;
+  private position: number = 0;
+  private lastTickTime: number = 0;
+  private tempoScale: number = 1;
+  private state: TransportState = "stopped";
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  // Sounding notes and pressed pedals, released when playback is interrupted
+  private heldNotes: Map<string, RecordedMidiEvent> = new Map();
+  private heldControllers: Map<string, RecordedMidiEvent> = new Map();
+
+  private listeners: TransportListener[] = [];
+
+  constructor(private handler: PlaybackHandler) {}
+
+  /**
+   * Load a new sequence, stopping anything currently playing
+   */
+  public load(events: RecordedMidiEvent[], title: string = ""): void {
+    this.stop();
+    this.events = [...events].sort((a, b) => a.time - b.time);
+    this.title = title;
+    this.notify();
+  }
+
+  /**
+   * Get the loaded sequence
+   */
+  public getEvents(): RecordedMidiEvent[] {
+    return this.events;
+  }
+
+  public hasSequence(): boolean {
+    return this.events.length > 0;
+  }
+
+  /**
+   * Length of the loaded sequence in milliseconds
+   */
+  public getDuration(): number {
+    if (this.events.length === 0) return 0;
+    return this.events[this.events.length - 1].time;
+  }
+
+  public getPosition(): number {
+    return this.position;
+  }
+
+  public getStatus(): TransportStatus {
+    return {
+      state: this.state,
+      position: this.position,
+      duration: this.getDuration(),
+      tempoScale: this.tempoScale,
+      title: this.title,
+    };
+  }
+
+  /**
+   * Subscribe to transport changes; returns an unsubscribe function
+   */
+  public subscribe(listener: TransportListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getStatus());
+
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Start or resume playback from the current position
+   */
+  public play(): void {
+    if (this.state === "playing" || this.events.length === 0) return;
+
+    // Restart from the top when the end was reached
+    if (this.position >= this.getDuration()) {
+      this.position = 0;
+      this.nextIndex = 0;
+    }
+
+    this.state = "playing";
+    this.lastTickTime = performance.now();
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.notify();
+  }
+
+  /**
+   * Pause playback, keeping the current position
+   */
+  public pause(): void {
+    if (this.state !== "playing") return;
+
+    this.clearTimer();
+    this.releaseHeld();
+    this.state = "paused";
+    this.notify();
+  }
+
+  /**
+   * Stop playback and return to the start
+   */
+  public stop(): void {
+    this.clearTimer();
+    this.releaseHeld();
+    this.state = "stopped";
+    this.position = 0;
+    this.nextIndex = 0;
+    this.notify();
+  }
+
+  /**
+   * Jump to a position in milliseconds
+   */
+  public seek(position: number): void {
+    this.releaseHeld();
+    this.position = Math.max(0, Math.min(position, this.getDuration()));
+    this.nextIndex = this.events.findIndex((event) => event.time >= this.position);
+    if (this.nextIndex === -1) {
+      this.nextIndex = this.events.length;
+    }
+    this.lastTickTime = performance.now();
+    this.notify();
+  }
+
+  /**
+   * Set playback speed relative to the file tempo (1 = original)
+   */
+  public setTempoScale(scale: number): void {
+    this.tempoScale = Math.max(0.25, Math.min(4, scale));
+    this.notify();
+  }
+
+  /**
+   * Stop playback and drop all listeners
+   */
+  public destroy(): void {
+    this.stop();
+    this.listeners = [];
+  }
+
+  // Advance the transport and dispatch all events that are now due
+  private tick(): void {
+    const now = performance.now();
+    this.position += (now - this.lastTickTime) * this.tempoScale;
+    this.lastTickTime = now;
+
+    while (
+      this.nextIndex < this.events.length &&
+      this.events[this.nextIndex].time <= this.position
+    ) {
+      const event = this.events[this.nextIndex++];
+      this.trackHeld(event);
+      this.handler(event);
+    }
+
+    if (this.nextIndex >= this.events.length) {
+      this.clearTimer();
+      this.releaseHeld();
+      this.position = this.getDuration();
+      this.state = "stopped";
+    }
+
+    this.notify();
+  }
+
+  private trackHeld(event: RecordedMidiEvent): void {
+    const key = `${event.channel}:${event.number}`;
+
+    if (event.type === "noteon") {
+      this.heldNotes.set(key, event);
+    } else if (event.type === "noteoff") {
+      this.heldNotes.delete(key);
+    } else if (PEDAL_CONTROLLERS.includes(event.number)) {
+      if (isPedalDown(event.value)) {
+        this.heldControllers.set(key, event);
+      } else {
+        this.heldControllers.delete(key);
+      }
+    }
+  }
+
+  // Send note offs and pedal releases for everything still held
+  private releaseHeld(): void {
+    this.heldControllers.forEach((event) => {
+      this.handler({ ...event, value: 0 });
+    });
+    this.heldNotes.forEach((event) => {
+      this.handler({ ...event, type: "noteoff", value: 0 });
+    });
+
+    this.heldControllers.clear();
+    this.heldNotes.clear();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
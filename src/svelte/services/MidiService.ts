@@ -0,0 +1,439 @@
+// src/svelte/services/MidiService.ts
+import { onDestroy } from "svelte";
+import { WebMidi } from "webmidi";
+import type {
+  ControlChangeMessageEvent,
+  Input,
+  MessageEvent,
+  NoteMessageEvent,
+  Output,
+  PortEvent,
+} from "webmidi";
+
+// Typed events delivered to subscribers
+export interface MidiNoteEvent {
+  type: "noteon" | "noteoff";
+  note: number;
+  name: string; // e.g. "C#4"
+  velocity: number; // 0 to 1
+  channel: number; // 1 to 16
+  inputId: string;
+  timestamp: number;
+}
+
+export interface MidiControlChangeEvent {
+  controller: number;
+  value: number; // raw value 0 to 127
+  channel: number;
+  inputId: string;
+  timestamp: number;
+}
+
+export interface MidiPitchBendEvent {
+  value: number; // -1 to 1
+  channel: number;
+  inputId: string;
+  timestamp: number;
+}
+
+export interface MidiAftertouchEvent {
+  note: number | null; // null for channel aftertouch
+  value: number; // 0 to 1
+  channel: number;
+  inputId: string;
+  timestamp: number;
+}
+
+export interface MidiProgramChangeEvent {
+  program: number; // 0 to 127
+  channel: number;
+  inputId: string;
+  timestamp: number;
+}
+
+export interface MidiClockEvent {
+  type: "clock" | "start" | "continue" | "stop";
+  inputId: string;
+  timestamp: number;
+}
+
+export interface MidiEventMap {
+  note: MidiNoteEvent;
+  controlchange: MidiControlChangeEvent;
+  pitchbend: MidiPitchBendEvent;
+  aftertouch: MidiAftertouchEvent;
+  programchange: MidiProgramChangeEvent;
+  clock: MidiClockEvent;
+}
+
+export type MidiSubscriptionType = keyof MidiEventMap;
+
+export type MidiCallback<K extends MidiSubscriptionType> = (
+  event: MidiEventMap[K]
+) => void;
+
+export type DeviceListener = (inputs: Input[], outputs: Output[]) => void;
+
+// Listeners attached to one physical input, kept so they can be removed exactly
+interface AttachedInput {
+  input: Input;
+  detach: () => void;
+}
+
+export class MidiService {
+  private enabled: boolean = false;
+  private enablePromise: Promise<void> | null = null;
+
+  // Inputs the user selected, kept across disconnects so they can be reattached
+  private selectedInputIds: string[] = [];
+  private attachedInputs: Map<string, AttachedInput> = new Map();
+
+  // Channels to accept (null means all channels)
+  private channelFilter: number[] | null = null;
+
+  private subscribers: {
+    [K in MidiSubscriptionType]: MidiCallback<K>[];
+  } = {
+    note: [],
+    controlchange: [],
+    pitchbend: [],
+    aftertouch: [],
+    programchange: [],
+    clock: [],
+  };
+
+  private deviceListeners: DeviceListener[] = [];
+
+  /**
+   * Enable Web MIDI access and start watching for devices
+   */
+  public enable(): Promise<void> {
+    if (this.enablePromise) return this.enablePromise;
+
+    this.enablePromise = WebMidi.enable().then(() => {
+      this.enabled = true;
+      WebMidi.addListener("connected", this.handleConnected);
+      WebMidi.addListener("disconnected", this.handleDisconnected);
+    });
+
+    // Allow another attempt if enabling failed
+    this.enablePromise.catch(() => {
+      this.enablePromise = null;
+    });
+
+    return this.enablePromise;
+  }
+
+  public get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Get the available MIDI inputs
+   */
+  public getInputs(): Input[] {
+    return this.enabled ? WebMidi.inputs : [];
+  }
+
+  /**
+   * Get the available MIDI outputs
+   */
+  public getOutputs(): Output[] {
+    return this.enabled ? WebMidi.outputs : [];
+  }
+
+  /**
+   * Listen on a single input (an empty id disconnects all inputs)
+   */
+  public selectInput(inputId: string): void {
+    this.selectInputs(inputId ? [inputId] : []);
+  }
+
+  /**
+   * Listen on several inputs at once; their events are merged
+   */
+  public selectInputs(inputIds: string[]): void {
+    this.selectedInputIds = [...inputIds];
+
+    // Detach inputs that are no longer selected
+    this.attachedInputs.forEach((attached, id) => {
+      if (!this.selectedInputIds.includes(id)) {
+        attached.detach();
+        this.attachedInputs.delete(id);
+      }
+    });
+
+    // Attach newly selected inputs that are present
+    this.selectedInputIds.forEach((id) => {
+      if (this.attachedInputs.has(id)) return;
+
+      const input = this.enabled ? WebMidi.getInputById(id) : undefined;
+      if (input) {
+        this.attachInput(input);
+      }
+    });
+  }
+
+  /**
+   * Ids of the selected inputs
+   */
+  public getSelectedInputIds(): string[] {
+    return [...this.selectedInputIds];
+  }
+
+  /**
+   * Ids of the selected inputs that are currently connected
+   */
+  public getConnectedInputIds(): string[] {
+    return Array.from(this.attachedInputs.keys());
+  }
+
+  /**
+   * Only pass events on these channels (null or empty for all channels)
+   */
+  public setChannelFilter(channels: number[] | null): void {
+    this.channelFilter = channels && channels.length > 0 ? [...channels] : null;
+  }
+
+  public getChannelFilter(): number[] | null {
+    return this.channelFilter ? [...this.channelFilter] : null;
+  }
+
+  /**
+   * Subscribe to a type of MIDI event; returns an unsubscribe function
+   */
+  public on<K extends MidiSubscriptionType>(
+    type: K,
+    callback: MidiCallback<K>
+  ): () => void {
+    const callbacks = this.subscribers[type] as MidiCallback<K>[];
+    callbacks.push(callback);
+
+    return () => {
+      const index = callbacks.indexOf(callback);
+      if (index !== -1) {
+        callbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to device connections and disconnections; returns an unsubscribe function
+   */
+  public onDevicesChanged(listener: DeviceListener): () => void {
+    this.deviceListeners.push(listener);
+
+    return () => {
+      const index = this.deviceListeners.indexOf(listener);
+      if (index !== -1) {
+        this.deviceListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Detach from all inputs and drop all subscribers
+   */
+  public destroy(): void {
+    this.attachedInputs.forEach((attached) => attached.detach());
+    this.attachedInputs.clear();
+
+    if (this.enabled) {
+      WebMidi.removeListener("connected", this.handleConnected);
+      WebMidi.removeListener("disconnected", this.handleDisconnected);
+    }
+
+    (Object.keys(this.subscribers) as MidiSubscriptionType[]).forEach((type) => {
+      this.subscribers[type] = [];
+    });
+    this.deviceListeners = [];
+  }
+
+  // Hot-plug: reattach a selected input when it comes back
+  private handleConnected = (e: PortEvent) => {
+    if (e.port.type === "input" && this.selectedInputIds.includes(e.port.id)) {
+      const input = WebMidi.getInputById(e.port.id);
+      if (input && !this.attachedInputs.has(input.id)) {
+        this.attachInput(input);
+      }
+    }
+    this.notifyDevices();
+  };
+
+  // Hot-plug: forget listeners on an input that went away
+  private handleDisconnected = (e: PortEvent) => {
+    if (e.port.type === "input") {
+      const attached = this.attachedInputs.get(e.port.id);
+      if (attached) {
+        attached.detach();
+        this.attachedInputs.delete(e.port.id);
+      }
+    }
+    this.notifyDevices();
+  };
+
+  private notifyDevices(): void {
+    const inputs = this.getInputs();
+    const outputs = this.getOutputs();
+    this.deviceListeners.forEach((listener) => listener(inputs, outputs));
+  }
+
+  // Attach one listener per event type and remember how to remove them
+  private attachInput(input: Input): void {
+    const inputId = input.id;
+
+    const onNote = (e: NoteMessageEvent) => {
+      this.dispatch("note", {
+        type: e.type === "noteon" ? "noteon" : "noteoff",
+        note: e.note.number,
+        name: e.note.name + (e.note.accidental || "") + e.note.octave,
+        velocity: e.type === "noteon" ? e.note.attack : e.note.release,
+        channel: e.message.channel,
+        inputId,
+        timestamp: e.timestamp,
+      });
+    };
+
+    const onControlChange = (e: ControlChangeMessageEvent) => {
+      if (typeof e.rawValue !== "number") return;
+
+      this.dispatch("controlchange", {
+        controller: e.controller.number,
+        value: e.rawValue,
+        channel: e.message.channel,
+        inputId,
+        timestamp: e.timestamp,
+      });
+    };
+
+    const onPitchBend = (e: MessageEvent) => {
+      this.dispatch("pitchbend", {
+        value: typeof e.value === "number" ? e.value : 0,
+        channel: e.message.channel,
+        inputId,
+        timestamp: e.timestamp,
+      });
+    };
+
+    const onKeyAftertouch = (e: NoteMessageEvent) => {
+      this.dispatch("aftertouch", {
+        note: e.note.number,
+        value: (e.rawValue ?? 0) / 127,
+        channel: e.message.channel,
+        inputId,
+        timestamp: e.timestamp,
+      });
+    };
+
+    const onChannelAftertouch = (e: MessageEvent) => {
+      this.dispatch("aftertouch", {
+        note: null,
+        value: (e.rawValue ?? 0) / 127,
+        channel: e.message.channel,
+        inputId,
+        timestamp: e.timestamp,
+      });
+    };
+
+    const onProgramChange = (e: MessageEvent) => {
+      this.dispatch("programchange", {
+        program: e.message.dataBytes[0],
+        channel: e.message.channel,
+        inputId,
+        timestamp: e.timestamp,
+      });
+    };
+
+    const onClock = (e: MessageEvent) => {
+      this.dispatch("clock", {
+        type: e.type as MidiClockEvent["type"],
+        inputId,
+        timestamp: e.timestamp,
+      });
+    };
+
+    input.addListener("noteon", onNote);
+    input.addListener("noteoff", onNote);
+    input.addListener("controlchange", onControlChange);
+    input.addListener("pitchbend", onPitchBend);
+    input.addListener("keyaftertouch", onKeyAftertouch);
+    input.addListener("channelaftertouch", onChannelAftertouch);
+    input.addListener("programchange", onProgramChange);
+    input.addListener("clock", onClock);
+    input.addListener("start", onClock);
+    input.addListener("continue", onClock);
+    input.addListener("stop", onClock);
+
+    const detach = () => {
+      try {
+        input.removeListener("noteon", onNote);
+        input.removeListener("noteoff", onNote);
+        input.removeListener("controlchange", onControlChange);
+        input.removeListener("pitchbend", onPitchBend);
+        input.removeListener("keyaftertouch", onKeyAftertouch);
+        input.removeListener("channelaftertouch", onChannelAftertouch);
+        input.removeListener("programchange", onProgramChange);
+        input.removeListener("clock", onClock);
+        input.removeListener("start", onClock);
+        input.removeListener("continue", onClock);
+        input.removeListener("stop", onClock);
+      } catch (error) {
+        console.error("Error removing MIDI listeners:", error);
+      }
+    };
+
+    this.attachedInputs.set(inputId, { input, detach });
+  }
+
+  private dispatch<K extends MidiSubscriptionType>(
+    type: K,
+    event: MidiEventMap[K]
+  ): void {
+    // Clock messages are not tied to a channel
+    if (this.channelFilter && "channel" in event) {
+      const channel = (event as { channel: number }).channel;
+      if (!this.channelFilter.includes(channel)) return;
+    }
+
+    const callbacks = [...(this.subscribers[type] as MidiCallback<K>[])];
+    callbacks.forEach((callback) => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error(`Error in MIDI ${type} subscriber:`, error);
+      }
+    });
+  }
+}
+
+// Create a singleton instance
+let instance: MidiService | null = null;
+
+export function getMidiService(): MidiService {
+  if (!instance) {
+    instance = new MidiService();
+  }
+  return instance;
+}
+
+/**
+ * Subscribe from a Svelte component; the subscription is removed when the
+ * component is destroyed. Must be called during component initialisation.
+ */
+export function onMidiEvent<K extends MidiSubscriptionType>(
+  type: K,
+  callback: MidiCallback<K>
+): () => void {
+  const unsubscribe = getMidiService().on(type, callback);
+  onDestroy(unsubscribe);
+  return unsubscribe;
+}
+
+/**
+ * Watch device changes from a Svelte component until it is destroyed
+ */
+export function onMidiDevicesChanged(listener: DeviceListener): () => void {
+  const unsubscribe = getMidiService().onDevicesChanged(listener);
+  onDestroy(unsubscribe);
+  return unsubscribe;
+}
@@ -4,10 +4,36 @@ import {
   Interval,
   Chord,
   Scale,
-  Key,
   PcSet,
   ChordType,
 } from "@tonaljs/tonal";
+import {
+  KeyDetectionService,
+  type KeyCandidate,
+  type ModulationEvent,
+  type ModulationListener,
+} from "./KeyDetectionService";
+import {
+  ImprovisationService,
+  type ImprovisationAdvice,
+} from "./ImprovisationService";
+import { NoteSpellingService } from "./NoteSpellingService";
+import {
+  ProgressionService,
+  type Cadence,
+  type ChordEvent,
+  type ProgressionPattern,
+} from "./ProgressionService";
+import {
+  VoiceLeadingService,
+  type VoiceLeadingAnalysis,
+} from "./VoiceLeadingService";
+import {
+  RomanNumeralService,
+  addFiguredBass,
+  type HarmonicFunctionType,
+  type RomanNumeralAnalysis,
+} from "./RomanNumeralService";
 
 // Types
 export interface NoteData {
@@ -17,7 +43,8 @@ export interface NoteData {
   timestamp: number;
   inKey: boolean;
   velocity: number;
-  active: boolean; // Whether the note is currently being played
+  active: boolean; // Whether the note is currently sounding (key down or held by a pedal)
+  sustained: boolean; // Key released but the note is held by the sustain or sostenuto pedal
 }
 
 export interface KeySignatureInfo {
@@ -32,126 +59,144 @@ export interface IntervalInfo {
   noteNames: [string, string]; // The two notes forming this interval
 }
 
+// Position of the chord above its bass, named by its figured bass
+// ("6/5" is a seventh chord in first inversion)
+export type ChordInversion = "root" | "6" | "6/4" | "6/5" | "4/3" | "4/2";
+
 export interface ChordInfo {
-  name: string;
+  name: string; // e.g. "CM/E" when the bass is not the root
   type: string;
   quality: string;
   notes: string[];
-  romanNumeral: string | null; // Roman numeral in the context of current key
+  romanNumeral: string | null; // Roman numeral with inversion figures, e.g. "V6/5"
+  scaleDegree: number | null; // Degree of the root, or of the target for secondary chords
+  functionType: HarmonicFunctionType | null; // Diatonic, borrowed, secondary...
+  borrowedFrom: string | null; // Mode a borrowed chord comes from
+  bass: string; // Lowest sounding pitch class
+  inversion: ChordInversion | null; // Null when the bass is not a chord tone
+  figuredBass: string | null; // Figures above the bass, e.g. "6/4" or "7"
 }
 
+// Chord types heard most often, preferred when ranking interpretations
+const COMMON_CHORD_TYPES = [
+  "major",
+  "minor",
+  "diminished",
+  "dominant seventh",
+  "major seventh",
+  "minor seventh",
+  "half-diminished",
+  "diminished seventh",
+];
+const FAMILIAR_CHORD_TYPES = [
+  "augmented",
+  "sixth",
+  "minor sixth",
+  "suspended fourth",
+  "suspended second",
+  "dominant ninth",
+  "major ninth",
+  "minor ninth",
+];
+
 export class MusicTheoryService {
-  // List of common key signatures to detect
-  private commonKeys = [
-    "C major",
-    "G major",
-    "D major",
-    "A major",
-    "E major",
-    "B major",
-    "F# major",
-    "Db major",
-    "Ab major",
-    "Eb major",
-    "Bb major",
-    "F major",
-    "A minor",
-    "E minor",
-    "B minor",
-    "F# minor",
-    "C# minor",
-    "G# minor",
-    "D# minor",
-    "Bb minor",
-    "F minor",
-    "C minor",
-    "G minor",
-    "D minor",
-  ];
+  // Windowed key finder fed with note starts and ends
+  private keyDetector = new KeyDetectionService();
+
+  // Roman numeral analysis for any mode
+  private romanNumerals = new RomanNumeralService();
+
+  // History of chords with cadences and common progressions
+  private progression = new ProgressionService();
+
+  // Voice leading between successive chords of the progression
+  private voiceLeading = new VoiceLeadingService();
+
+  // Names notes to suit the current key and chord
+  private spelling = new NoteSpellingService();
+
+  // Scales and next chords to improvise with
+  private improvisation = new ImprovisationService();
 
   // Current detected key
   private currentKey: KeySignatureInfo | null = null;
 
-  // All notes that have been played (persistent collection)
-  private allPlayedNotes: Set<string> = new Set();
-
-  // All active notes (currently being held)
+  // Current notes, including released notes that are still fading out
   private activeNotes: NoteData[] = [];
 
-  // Reset note collection for key detection
+  // Notes the key finder knows are sounding, with their start times
+  private soundingNotes: Map<string, { midiNumber: number; start: number }> = new Map();
+
+  // Reset key detection
   public resetNoteCollection(): void {
-    this.allPlayedNotes.clear();
+    this.keyDetector.reset();
+    this.progression.reset();
+    this.voiceLeading.reset();
+    this.soundingNotes.clear();
     this.currentKey = null;
-  }
-
-  // Add a note to the persistent collection
-  public addNoteToCollection(noteName: string): void {
-    // Extract just the pitch class (remove octave)
-    const pitchClass = Note.get(noteName).pc;
-    this.allPlayedNotes.add(pitchClass);
+    this.spelling.setKey(null);
+    this.spelling.setChord(null);
   }
 
   // Set active notes (currently being played or recently played)
-  public setActiveNotes(notes: NoteData[]): void {
+  public setActiveNotes(notes: NoteData[], time: number = Date.now()): void {
     this.activeNotes = [...notes];
-
-    // Add all notes to the persistent collection
-    notes.forEach((note) => {
-      this.addNoteToCollection(note.name);
-    });
+    this.trackNoteDurations(notes, time);
   }
 
-  // Detect the most likely key signature from all played notes
-  public detectKey(): KeySignatureInfo | null {
-    // Convert the Set to an array
-    const allNotes = Array.from(this.allPlayedNotes);
-
-    // If there are fewer than 3 unique notes, we don't have enough information
-    if (allNotes.length < 3) {
-      console.log("Not enough notes to detect key signature");
-      return null;
-    }
-
-    console.log("All notes for key detection:", allNotes);
-
-    // Use Tonal.js to detect possible scales
-    const scaleMatches = Scale.detect(allNotes);
-    console.log("Detected scales:", scaleMatches);
+  // Tell the key finder which notes started and stopped since the last update
+  private trackNoteDurations(notes: NoteData[], now: number): void {
+    const stillSounding = new Set<string>();
 
-    // Filter to include only common key signatures
-    const keyMatches = this.getCommonKeyMatches(scaleMatches);
-    console.log("Common key matches:", keyMatches);
+    notes.forEach((note) => {
+      if (!note.active) return;
+      stillSounding.add(note.id);
+
+      // New note, or the same key struck again
+      const known = this.soundingNotes.get(note.id);
+      if (!known || known.start !== note.timestamp) {
+        this.keyDetector.noteOn(note.midiNumber, note.velocity, note.timestamp);
+        this.soundingNotes.set(note.id, {
+          midiNumber: note.midiNumber,
+          start: note.timestamp,
+        });
+      }
+    });
 
-    if (keyMatches.length === 0) {
-      return null;
-    }
+    this.soundingNotes.forEach((sounding, id) => {
+      if (!stillSounding.has(id)) {
+        this.keyDetector.noteOff(sounding.midiNumber, now);
+        this.soundingNotes.delete(id);
+      }
+    });
+  }
 
-    // Calculate confidence score for each key
-    const keysWithConfidence = keyMatches.map((keyName) => {
-      const scale = Scale.get(keyName);
-      const scaleNotes = scale.notes;
+  // Detect the most likely key from the notes in the recent window
+  public detectKey(time: number = Date.now()): KeySignatureInfo | null {
+    this.keyDetector.update(time);
 
-      // Count how many played notes are in this key
-      const matchingNotes = allNotes.filter((note) =>
-        scaleNotes.includes(note)
-      );
+    const key = this.keyDetector.getCurrentKey();
+    this.currentKey = key
+      ? { keyName: key.keyName, notes: key.notes, confidence: key.confidence }
+      : null;
+    this.spelling.setKey(this.currentKey ? this.currentKey.keyName : null);
 
-      // Calculate confidence score
-      const confidence = matchingNotes.length / allNotes.length;
+    return this.currentKey;
+  }
 
-      return {
-        keyName: keyName,
-        notes: scaleNotes,
-        confidence: confidence,
-      };
-    });
+  // Keys ranked by how well they fit the recent notes
+  public getKeyCandidates(): KeyCandidate[] {
+    return this.keyDetector.getCandidates();
+  }
 
-    // Sort by confidence score
-    keysWithConfidence.sort((a, b) => b.confidence - a.confidence);
+  // Key changes since the last reset
+  public getModulations(): ModulationEvent[] {
+    return this.keyDetector.getModulations();
+  }
 
-    // Take the key with highest confidence
-    this.currentKey = keysWithConfidence[0];
-    return this.currentKey;
+  // Subscribe to key changes; returns an unsubscribe function
+  public onModulation(listener: ModulationListener): () => void {
+    return this.keyDetector.onModulation(listener);
   }
 
   // Check if a note is in the current key signature
@@ -160,28 +205,28 @@ export class MusicTheoryService {
       return true; // If no key detected, consider all notes in key
     }
 
-    // Get pitch class of the note (remove octave)
-    const pitchClass = Note.get(noteName).pc;
+    // Compare by sound, so an enharmonic spelling still counts
+    const chroma = Note.chroma(noteName);
+    return this.currentKey.notes.some((note) => Note.chroma(note) === chroma);
+  }
 
-    // Check if the note is in the key's scale
-    return this.currentKey.notes.includes(pitchClass);
+  // Name a MIDI note for the current key and chord (Eb4 rather than D#4)
+  public spellNote(midiNumber: number): string {
+    return this.spelling.spellMidi(midiNumber);
   }
 
-  // Process notes to add inKey property
+  // Process notes to add inKey property and spell them for the key
   public processNotes(notes: NoteData[]): NoteData[] {
-    // If we couldn't detect a key, all notes are considered in key
-    if (!this.currentKey) {
-      return notes.map((note) => ({
-        ...note,
-        inKey: true,
-      }));
-    }
+    return notes.map((note) => {
+      const name = this.spellNote(note.midiNumber);
 
-    // Otherwise, mark each note as in key or not
-    return notes.map((note) => ({
-      ...note,
-      inKey: this.isNoteInKey(note.name),
-    }));
+      return {
+        ...note,
+        name,
+        // If we couldn't detect a key, all notes are considered in key
+        inKey: this.isNoteInKey(name),
+      };
+    });
   }
 
   // Get the current detected key
@@ -189,10 +234,17 @@ export class MusicTheoryService {
     return this.currentKey;
   }
 
-  // Detect intervals between active notes
+  // Notes that are still sounding, either held or sustained by a pedal
+  private getSoundingNotes(): NoteData[] {
+    return this.activeNotes.filter((n) => n.active);
+  }
+
+  // Detect intervals between sounding notes
   public detectIntervals(): IntervalInfo[] {
     const intervals: IntervalInfo[] = [];
-    const activeNoteNames = this.activeNotes.map((n) => n.name);
+    const activeNoteNames = this.getSoundingNotes()
+      .sort((a, b) => a.midiNumber - b.midiNumber)
+      .map((n) => this.spellNote(n.midiNumber));
 
     // Need at least 2 notes to form an interval
     if (activeNoteNames.length < 2) {
@@ -220,10 +272,17 @@ export class MusicTheoryService {
     return intervals;
   }
 
-  // Detect chords from active notes
+  // Detect chords from sounding notes, best interpretation first
   public detectChords(): ChordInfo[] {
-    // Get pitch classes of active notes (remove octave)
-    const pitchClasses = this.activeNotes.map((n) => Note.get(n.name).pc);
+    // Pitch classes from the lowest note up, so the first one is the bass
+    const sounding = [...this.getSoundingNotes()].sort(
+      (a, b) => a.midiNumber - b.midiNumber
+    );
+    // Spell by the key alone; the chord found then refines the spelling
+    this.spelling.setChord(null);
+    const pitchClasses = sounding.map((n) =>
+      this.spelling.spellPitchClass(n.midiNumber)
+    );
     const uniquePitchClasses = [...new Set(pitchClasses)];
 
     // Need at least 3 unique notes to form a chord
@@ -231,29 +290,184 @@ export class MusicTheoryService {
       return [];
     }
 
-    // Detect chords
+    // Detect chords; with the bass first, inversions come back as slash chords
     const possibleChords = Chord.detect(uniquePitchClasses);
-    console.log("Detected chords:", possibleChords);
 
     if (possibleChords.length === 0) {
       return [];
     }
 
+    const bass = uniquePitchClasses[0];
+
     // Map to ChordInfo objects
-    const chords = possibleChords.map((chordName) => {
-      const chord = Chord.get(chordName);
-      const rootNote = chord.tonic || "";
+    const chords = possibleChords
+      .map((chordName) => this.createChordInfo(chordName, bass))
+      .filter((chord): chord is ChordInfo => chord !== null);
+
+    const ranked = chords
+      .map((chord, index) => ({ chord, index }))
+      .sort(
+        (a, b) =>
+          this.scoreChord(b.chord) - this.scoreChord(a.chord) ||
+          a.index - b.index
+      )
+      .map(({ chord }) => chord);
+
+    this.spelling.setChord(ranked.length > 0 ? ranked[0].notes : null);
+    return ranked;
+  }
 
-      return {
-        name: chordName,
-        type: chord.type,
-        quality: this.getChordQuality(chord.type),
-        notes: chord.notes,
-        romanNumeral: this.getRomanNumeral(rootNote, chord.type),
-      };
-    });
+  // Build the analysis of one detected chord name over the given bass
+  private createChordInfo(chordName: string, bass: string): ChordInfo | null {
+    // Chord.get does not understand slash chords, so look up the upper part
+    const [symbol] = chordName.split("/");
+    const chord = Chord.get(symbol);
+    if (chord.empty) {
+      return null;
+    }
+
+    const rootNote = chord.tonic || "";
+    const inversion = this.getInversion(chord.notes, chord.intervals, bass);
+    const figuredBass = inversion
+      ? this.getFiguredBass(inversion, chord.intervals)
+      : null;
+    const analysis = this.getRomanNumeral(rootNote, chord.intervals);
+
+    return {
+      name: chordName,
+      type: chord.type,
+      quality: this.getChordQuality(chord.type),
+      notes: chord.notes,
+      romanNumeral: analysis
+        ? addFiguredBass(analysis.numeral, figuredBass ?? "")
+        : null,
+      scaleDegree: analysis ? analysis.degree : null,
+      functionType: analysis ? analysis.functionType : null,
+      borrowedFrom: analysis?.borrowedFrom ?? null,
+      bass,
+      inversion,
+      figuredBass,
+    };
+  }
+
+  // Which chord member is in the bass
+  private getInversion(
+    chordNotes: string[],
+    intervals: string[],
+    bass: string
+  ): ChordInversion | null {
+    const bassChroma = Note.chroma(bass);
+    const index = chordNotes.findIndex(
+      (note) => Note.chroma(note) === bassChroma
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const isSeventhChord = this.hasSeventh(intervals);
+    const member = Interval.get(intervals[index]).num;
+
+    switch (member) {
+      case 1:
+        return "root";
+      case 3:
+        return isSeventhChord ? "6/5" : "6";
+      case 5:
+        return isSeventhChord ? "4/3" : "6/4";
+      case 7:
+        return "4/2";
+      default:
+        return null; // Added tones and suspensions in the bass
+    }
+  }
+
+  // Figures written under the bass ("7" for a root-position seventh chord)
+  private getFiguredBass(
+    inversion: ChordInversion,
+    intervals: string[]
+  ): string {
+    if (inversion !== "root") {
+      return inversion;
+    }
+    return this.hasSeventh(intervals) ? "7" : "";
+  }
+
+  private hasSeventh(intervals: string[]): boolean {
+    return intervals.some((interval) => Interval.get(interval).num === 7);
+  }
+
+  // Higher scores for common chords and chords built up from the bass
+  private scoreChord(chord: ChordInfo): number {
+    let score = 0;
+
+    if (COMMON_CHORD_TYPES.includes(chord.type)) {
+      score += 2;
+    } else if (FAMILIAR_CHORD_TYPES.includes(chord.type)) {
+      score += 1;
+    }
+
+    if (chord.inversion === "root") {
+      score += 1.5;
+    } else if (chord.inversion !== null) {
+      score += 1;
+    }
+
+    return score;
+  }
+
+  // Add the best of the detected chords to the progression history and
+  // follow the voice leading into it; returns true when either changed
+  public trackProgression(
+    chords: ChordInfo[],
+    time: number = Date.now()
+  ): boolean {
+    const keyName = this.currentKey ? this.currentKey.keyName : null;
+    const progressionChanged = this.progression.update(
+      chords[0] ?? null,
+      keyName,
+      time
+    );
+
+    const event = this.progression.getCurrentEvent();
+    const voiceLeadingChanged = event
+      ? this.voiceLeading.update(
+          event.id,
+          this.getSoundingNotes().map((n) => n.midiNumber),
+          chords[0] ?? null,
+          keyName
+        )
+      : false;
+
+    return progressionChanged || voiceLeadingChanged;
+  }
+
+  // Voice leading from the previous chord into the current one
+  public getVoiceLeading(): VoiceLeadingAnalysis | null {
+    return this.voiceLeading.getAnalysis();
+  }
+
+  // Chords heard so far, oldest first
+  public getChordHistory(): ChordEvent[] {
+    return this.progression.getEvents();
+  }
+
+  // Cadences in the chord history
+  public getCadences(): Cadence[] {
+    return this.progression.getCadences();
+  }
 
-    return chords;
+  // Common progressions (ii–V–I, I–vi–IV–V) in the chord history
+  public getProgressionPatterns(): ProgressionPattern[] {
+    return this.progression.getPatterns();
+  }
+
+  // Scales to play over the best of the detected chords and the chords
+  // likely to follow it
+  public getImprovisationAdvice(
+    chords: ChordInfo[]
+  ): ImprovisationAdvice | null {
+    const keyName = this.currentKey ? this.currentKey.keyName : null;
+    return this.improvisation.advise(chords[0] ?? null, keyName);
   }
 
   // Get chord quality from type
@@ -273,49 +487,24 @@ export class MusicTheoryService {
     }
   }
 
-  // Get Roman numeral for a chord in current key
-  private getRomanNumeral(rootNote: string, chordType: string): string | null {
+  // Get Roman numeral for a chord in the current key and mode
+  private getRomanNumeral(
+    rootNote: string,
+    intervals: string[]
+  ): RomanNumeralAnalysis | null {
     if (!this.currentKey || !rootNote) {
       return null;
     }
 
     try {
-      // Get the key and scale
-      const keyObj = Key.majorKey(this.currentKey.keyName.split(" ")[0]);
-
-      // Find the degree of the root note in the scale
-      const scaleNotes = keyObj.scale;
-      const degree = scaleNotes.findIndex((note) => note === rootNote);
-
-      if (degree === -1) {
-        return null; // Root not in scale
-      }
-
-      // Roman numerals
-      const numerals = ["I", "II", "III", "IV", "V", "VI", "VII"];
-      let romanNumeral = numerals[degree];
-
-      // Adjust based on chord quality
-      const quality = this.getChordQuality(chordType);
-      if (quality === "minor") {
-        romanNumeral = romanNumeral.toLowerCase();
-      } else if (quality === "diminished") {
-        romanNumeral = romanNumeral.toLowerCase() + "°";
-      } else if (quality === "augmented") {
-        romanNumeral = romanNumeral + "+";
-      }
-
-      return romanNumeral;
+      return this.romanNumerals.analyse(
+        rootNote,
+        intervals,
+        this.currentKey.keyName
+      );
     } catch (error) {
       console.error("Error getting Roman numeral:", error);
       return null;
     }
   }
-
-  // Filter scale matches to only include common key signatures
-  private getCommonKeyMatches(scaleMatches: string[]): string[] {
-    return scaleMatches.filter((scale) => {
-      return this.commonKeys.includes(scale);
-    });
-  }
 }
@@ -0,0 +1,205 @@
+// MusicXmlService.ts
+
+// Written note values, longest first
+export type NoteType =
+  | "whole"
+  | "half"
+  | "quarter"
+  | "eighth"
+  | "16th"
+  | "32nd";
+
+export interface ScorePitch {
+  step: string; // Letter name, A to G
+  alter: number; // -1 flat, 1 sharp
+  octave: number;
+}
+
+// A note, chord or rest in one voice
+export interface ScoreNote {
+  pitches: ScorePitch[]; // Empty for a rest, several for a chord
+  duration: number; // In divisions
+  type: NoteType | null; // null for a whole-measure rest
+  dots: number;
+  tieStart: boolean;
+  tieStop: boolean;
+}
+
+export interface ScoreMeasure {
+  staves: ScoreNote[][]; // Treble then bass
+}
+
+export interface Score {
+  title: string;
+  divisions: number; // Divisions per quarter note
+  beatsPerBar: number;
+  beatType: number;
+  fifths: number; // Key signature, sharps positive and flats negative
+  mode: string;
+  bpm: number;
+  measures: ScoreMeasure[];
+}
+
+// Voice numbers per staff, as notation programs number them
+const STAFF_VOICES = [1, 5];
+
+const CLEFS = [
+  { sign: "G", line: 2 },
+  { sign: "F", line: 4 },
+];
+
+/**
+ * Encode a two-staff piano score as a MusicXML 4.0 partwise document that
+ * notation programs such as MuseScore can open.
+ */
+export function encodeMusicXml(score: Score): string {
+  const today = new Date().toISOString().slice(0, 10);
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="no"?>`,
+    `<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">`,
+    `<score-partwise version="4.0">`,
+    `  <work>`,
+    `    <work-title>${escapeXml(score.title)}</work-title>`,
+    `  </work>`,
+    `  <identification>`,
+    `    <encoding>`,
+    `      <software>MIDI Workstation</software>`,
+    `      <encoding-date>${today}</encoding-date>`,
+    `    </encoding>`,
+    `  </identification>`,
+    `  <part-list>`,
+    `    <score-part id="P1">`,
+    `      <part-name>Piano</part-name>`,
+    `    </score-part>`,
+    `  </part-list>`,
+    `  <part id="P1">`,
+  ];
+
+  const measureDuration =
+    (score.beatsPerBar * score.divisions * 4) / score.beatType;
+
+  score.measures.forEach((measure, index) => {
+    lines.push(`    <measure number="${index + 1}">`);
+
+    if (index === 0) {
+      lines.push(...encodeAttributes(score));
+      lines.push(...encodeTempo(score.bpm));
+    }
+
+    measure.staves.forEach((notes, staff) => {
+      if (staff > 0) {
+        lines.push(
+          `      <backup>`,
+          `        <duration>${measureDuration}</duration>`,
+          `      </backup>`
+        );
+      }
+      notes.forEach((note) => lines.push(...encodeNote(note, staff)));
+    });
+
+    lines.push(`    </measure>`);
+  });
+
+  lines.push(`  </part>`, `</score-partwise>`, ``);
+  return lines.join("\n");
+}
+
+function encodeAttributes(score: Score): string[] {
+  return [
+    `      <attributes>`,
+    `        <divisions>${score.divisions}</divisions>`,
+    `        <key>`,
+    `          <fifths>${score.fifths}</fifths>`,
+    `          <mode>${score.mode}</mode>`,
+    `        </key>`,
+    `        <time>`,
+    `          <beats>${score.beatsPerBar}</beats>`,
+    `          <beat-type>${score.beatType}</beat-type>`,
+    `        </time>`,
+    `        <staves>${CLEFS.length}</staves>`,
+    ...CLEFS.flatMap((clef, index) => [
+      `        <clef number="${index + 1}">`,
+      `          <sign>${clef.sign}</sign>`,
+      `          <line>${clef.line}</line>`,
+      `        </clef>`,
+    ]),
+    `      </attributes>`,
+  ];
+}
+
+function encodeTempo(bpm: number): string[] {
+  const rounded = Math.round(bpm);
+  return [
+    `      <direction placement="above">`,
+    `        <direction-type>`,
+    `          <metronome>`,
+    `            <beat-unit>quarter</beat-unit>`,
+    `            <per-minute>${rounded}</per-minute>`,
+    `          </metronome>`,
+    `        </direction-type>`,
+    `        <staff>1</staff>`,
+    `        <sound tempo="${rounded}"/>`,
+    `      </direction>`,
+  ];
+}
+
+// A rest or a chord; chord notes after the first carry <chord/>
+function encodeNote(note: ScoreNote, staff: number): string[] {
+  const voice = STAFF_VOICES[staff];
+
+  if (note.pitches.length === 0) {
+    return [
+      `      <note>`,
+      note.type === null ? `        <rest measure="yes"/>` : `        <rest/>`,
+      `        <duration>${note.duration}</duration>`,
+      `        <voice>${voice}</voice>`,
+      ...encodeType(note),
+      `        <staff>${staff + 1}</staff>`,
+      `      </note>`,
+    ];
+  }
+
+  return note.pitches.flatMap((pitch, index) => [
+    `      <note>`,
+    ...(index > 0 ? [`        <chord/>`] : []),
+    `        <pitch>`,
+    `          <step>${pitch.step}</step>`,
+    ...(pitch.alter !== 0 ? [`          <alter>${pitch.alter}</alter>`] : []),
+    `          <octave>${pitch.octave}</octave>`,
+    `        </pitch>`,
+    `        <duration>${note.duration}</duration>`,
+    ...(note.tieStop ? [`        <tie type="stop"/>`] : []),
+    ...(note.tieStart ? [`        <tie type="start"/>`] : []),
+    `        <voice>${voice}</voice>`,
+    ...encodeType(note),
+    `        <staff>${staff + 1}</staff>`,
+    ...encodeTies(note),
+    `      </note>`,
+  ]);
+}
+
+function encodeType(note: ScoreNote): string[] {
+  if (note.type === null) return [];
+  return [
+    `        <type>${note.type}</type>`,
+    ...Array.from({ length: note.dots }, () => `        <dot/>`),
+  ];
+}
+
+function encodeTies(note: ScoreNote): string[] {
+  if (!note.tieStart && !note.tieStop) return [];
+  return [
+    `        <notations>`,
+    ...(note.tieStop ? [`          <tied type="stop"/>`] : []),
+    ...(note.tieStart ? [`          <tied type="start"/>`] : []),
+    `        </notations>`,
+  ];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
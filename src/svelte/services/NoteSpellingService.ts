@@ -0,0 +1,155 @@
+// NoteSpellingService.ts
+import { Note, Scale } from "@tonaljs/tonal";
+import { parseKeyName } from "./RomanNumeralService";
+
+// Interval above the tonic used to spell each chromatic step outside the
+// scale: lowered 2nd, 3rd, 6th and 7th, raised 4th
+const CHROMATIC_INTERVALS = [
+  "1P",
+  "2m",
+  "2M",
+  "3m",
+  "3M",
+  "4P",
+  "4A",
+  "5P",
+  "6m",
+  "6M",
+  "7m",
+  "7M",
+];
+
+// Spelling when no key is known
+const DEFAULT_SPELLINGS = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+];
+
+// Modes notation programs know by name; the others are written as minor
+const NOTATED_MODES = [
+  "major",
+  "minor",
+  "dorian",
+  "phrygian",
+  "lydian",
+  "mixolydian",
+  "locrian",
+];
+
+export interface KeySignature {
+  fifths: number; // Sharps positive, flats negative
+  mode: string;
+}
+
+/**
+ * Sharps or flats written for a key, counted from its scale
+ */
+export function getKeySignature(keyName: string | null): KeySignature {
+  if (!keyName) return { fifths: 0, mode: "major" };
+
+  const { tonic, mode } = parseKeyName(keyName);
+  const notatedMode = NOTATED_MODES.includes(mode) ? mode : "minor";
+  const fifths = Scale.get(`${tonic} ${notatedMode}`).notes.reduce(
+    (sum, note) => sum + Note.get(note).alt,
+    0
+  );
+
+  return { fifths, mode: notatedMode };
+}
+
+/**
+ * Names MIDI notes the way they would be written in the current key, so
+ * that Eb major shows Eb and Bb rather than D# and A#.
+ *
+ * A note of the current chord keeps the chord's spelling (G# in E major
+ * heard in C), then a note of the key's scale keeps the scale's spelling,
+ * and any other note is spelled by its distance from the tonic.
+ */
+export class NoteSpellingService {
+  private keyName: string | null = null;
+  private scaleNotes: string[] = [];
+  private chordNotes: string[] = [];
+
+  constructor(keyName: string | null = null) {
+    this.setKey(keyName);
+  }
+
+  public setKey(keyName: string | null): void {
+    if (keyName === this.keyName) return;
+
+    this.keyName = keyName;
+    this.scaleNotes = keyName ? Scale.get(keyName).notes : [];
+  }
+
+  /**
+   * Notes of the chord being heard, spelled as the chord is written
+   */
+  public setChord(chordNotes: string[] | null): void {
+    this.chordNotes = chordNotes
+      ? chordNotes.map((note) => Note.pitchClass(note))
+      : [];
+  }
+
+  /**
+   * Name of a pitch class (0 is C) in the current context
+   */
+  public spellPitchClass(chroma: number): string {
+    const pc = ((chroma % 12) + 12) % 12;
+
+    const chordNote = this.chordNotes.find((note) => Note.chroma(note) === pc);
+    if (chordNote) return chordNote;
+
+    const scaleNote = this.scaleNotes.find((note) => Note.chroma(note) === pc);
+    if (scaleNote) return scaleNote;
+
+    if (this.keyName) {
+      const { tonic } = parseKeyName(this.keyName);
+      const tonicChroma = Note.chroma(tonic);
+
+      if (tonicChroma !== undefined) {
+        const interval = CHROMATIC_INTERVALS[(pc - tonicChroma + 12) % 12];
+        const spelled = Note.pitchClass(Note.transpose(tonic, interval));
+
+        // Keys far round the circle would need double sharps or flats
+        return /##|bb/.test(spelled) ? Note.simplify(spelled) : spelled;
+      }
+    }
+
+    return DEFAULT_SPELLINGS[pc];
+  }
+
+  /**
+   * Name of a MIDI note with its octave (B#3 and C4 are both 60)
+   */
+  public spellMidi(midiNumber: number): string {
+    const pitchClass = this.spellPitchClass(midiNumber % 12);
+
+    // Cb and B# belong to the octave above or below their sound
+    let octave = Math.floor(midiNumber / 12) - 1;
+    const midi = Note.midi(`${pitchClass}${octave}`);
+    if (midi !== null && midi !== midiNumber) {
+      octave += midiNumber > midi ? 1 : -1;
+    }
+
+    return `${pitchClass}${octave}`;
+  }
+
+  /**
+   * All twelve pitch classes spelled for the current context, C first
+   */
+  public getPitchClasses(): string[] {
+    return Array.from({ length: 12 }, (_, chroma) =>
+      this.spellPitchClass(chroma)
+    );
+  }
+}
@@ -0,0 +1,175 @@
+// PedalService.ts
+
+// MIDI controller numbers for piano pedals
+export const SUSTAIN_PEDAL = 64;
+export const SOSTENUTO_PEDAL = 66;
+export const SOFT_PEDAL = 67;
+
+export const PEDAL_CONTROLLERS = [SUSTAIN_PEDAL, SOSTENUTO_PEDAL, SOFT_PEDAL];
+
+// Velocity multiplier applied to notes struck with the soft pedal down
+export const SOFT_PEDAL_VELOCITY_SCALE = 0.6;
+
+/**
+ * Whether a controller value means the pedal is down (half pedal counts as down)
+ */
+export function isPedalDown(value: number | boolean): boolean {
+  if (typeof value === "boolean") return value;
+  return value >= 64;
+}
+
+/**
+ * Tracks which notes keep sounding after their key is released.
+ *
+ * Sustain holds every released note until the pedal lifts. Sostenuto only
+ * holds the notes whose keys were down at the moment it was pressed. Each
+ * consumer (analysis, synth) keeps its own instance and releases the notes
+ * returned by the pedal methods.
+ */
+export class PedalService {
+  private sustainDown: boolean = false;
+  private sostenutoDown: boolean = false;
+  private softDown: boolean = false;
+
+  // Keys physically held down
+  private pressedKeys: Set<number> = new Set();
+
+  // Notes captured by the sostenuto pedal
+  private sostenutoNotes: Set<number> = new Set();
+
+  // Released notes that are still sounding because of a pedal
+  private sustainedNotes: Set<number> = new Set();
+
+  public get isSustainDown(): boolean {
+    return this.sustainDown;
+  }
+
+  public get isSostenutoDown(): boolean {
+    return this.sostenutoDown;
+  }
+
+  public get isSoftDown(): boolean {
+    return this.softDown;
+  }
+
+  /**
+   * Register a key press
+   */
+  public keyDown(note: number): void {
+    this.pressedKeys.add(note);
+    this.sustainedNotes.delete(note);
+  }
+
+  /**
+   * Register a key release; returns true when the note should stop now
+   */
+  public keyUp(note: number): boolean {
+    this.pressedKeys.delete(note);
+
+    if (this.isHeldByPedal(note)) {
+      this.sustainedNotes.add(note);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether a released note is being held by a pedal
+   */
+  public isSustained(note: number): boolean {
+    return this.sustainedNotes.has(note);
+  }
+
+  /**
+   * Set the sustain pedal; returns the notes to release
+   */
+  public setSustain(down: boolean): number[] {
+    this.sustainDown = down;
+    return down ? [] : this.collectReleasedNotes();
+  }
+
+  /**
+   * Set the sostenuto pedal; returns the notes to release
+   */
+  public setSostenuto(down: boolean): number[] {
+    if (down && !this.sostenutoDown) {
+      // Only the keys down right now are captured
+      this.sostenutoNotes = new Set(this.pressedKeys);
+    }
+
+    this.sostenutoDown = down;
+
+    if (down) return [];
+
+    const released = this.collectReleasedNotes();
+    this.sostenutoNotes.clear();
+    return released;
+  }
+
+  /**
+   * Set the soft (una corda) pedal
+   */
+  public setSoft(down: boolean): void {
+    this.softDown = down;
+  }
+
+  /**
+   * Apply a pedal control change; returns the notes to release
+   */
+  public handleControlChange(controller: number, value: number | boolean): number[] {
+    const down = isPedalDown(value);
+
+    switch (controller) {
+      case SUSTAIN_PEDAL:
+        return this.setSustain(down);
+      case SOSTENUTO_PEDAL:
+        return this.setSostenuto(down);
+      case SOFT_PEDAL:
+        this.setSoft(down);
+        return [];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Scale a note velocity for the soft pedal
+   */
+  public applySoftPedal(velocity: number): number {
+    return this.softDown ? velocity * SOFT_PEDAL_VELOCITY_SCALE : velocity;
+  }
+
+  /**
+   * Lift all pedals and forget all notes
+   */
+  public reset(): void {
+    this.sustainDown = false;
+    this.sostenutoDown = false;
+    this.softDown = false;
+    this.pressedKeys.clear();
+    this.sostenutoNotes.clear();
+    this.sustainedNotes.clear();
+  }
+
+  private isHeldByPedal(note: number): boolean {
+    return (
+      this.sustainDown ||
+      (this.sostenutoDown && this.sostenutoNotes.has(note))
+    );
+  }
+
+  // Sustained notes that no pedal or key is holding any more
+  private collectReleasedNotes(): number[] {
+    const released: number[] = [];
+
+    this.sustainedNotes.forEach((note) => {
+      if (!this.pressedKeys.has(note) && !this.isHeldByPedal(note)) {
+        released.push(note);
+      }
+    });
+
+    released.forEach((note) => this.sustainedNotes.delete(note));
+    return released;
+  }
+}
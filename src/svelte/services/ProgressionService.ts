@@ -0,0 +1,327 @@
+// ProgressionService.ts
+import { Chord } from "@tonaljs/tonal";
+import type { ChordInfo, ChordInversion } from "./MusicTheoryService";
+import {
+  getTriadQuality,
+  type HarmonicFunctionType,
+  type TriadQuality,
+} from "./RomanNumeralService";
+
+// One chord in the history, from when it was first heard until it changed
+export interface ChordEvent {
+  id: number;
+  name: string;
+  romanNumeral: string | null;
+  scaleDegree: number | null;
+  functionType: HarmonicFunctionType | null;
+  triad: TriadQuality;
+  inversion: ChordInversion | null;
+  keyName: string | null;
+  start: number;
+  end: number | null; // null while the chord is sounding
+}
+
+export type CadenceType = "authentic" | "plagal" | "half" | "deceptive";
+
+export interface Cadence {
+  type: CadenceType;
+  perfect: boolean; // Authentic cadence with both chords in root position
+  keyName: string;
+  eventIds: number[]; // The two chords forming the cadence
+  time: number;
+}
+
+export interface ProgressionPattern {
+  name: string; // e.g. "ii–V–I"
+  keyName: string;
+  eventIds: number[];
+  time: number;
+}
+
+interface PatternDefinition {
+  name: string;
+  degrees: number[];
+}
+
+// Progressions worth pointing out, by scale degree of each chord's root
+const PATTERNS: PatternDefinition[] = [
+  { name: "ii–V–I", degrees: [2, 5, 1] },
+  { name: "I–vi–IV–V", degrees: [1, 6, 4, 5] },
+];
+
+// A chord replaced sooner than this was only a step while keys went down (ms)
+const MIN_CHORD_MS = 120;
+
+// Oldest chords are dropped beyond this many
+const MAX_EVENTS = 64;
+
+/**
+ * Turns the stream of detected chords into a history of chord events and
+ * finds cadences and common progressions in it.
+ *
+ * Chords count as the same event while their root and type stay the same,
+ * so changing the voicing or inversion does not start a new chord.
+ */
+export class ProgressionService {
+  private events: ChordEvent[] = [];
+  private cadences: Cadence[] = [];
+  private patterns: ProgressionPattern[] = [];
+  private nextEventId: number = 1;
+
+  /**
+   * Feed the best chord for the notes sounding now (null for no chord);
+   * returns true when the history changed
+   */
+  public update(
+    chord: ChordInfo | null,
+    keyName: string | null,
+    time: number = Date.now()
+  ): boolean {
+    const last = this.events[this.events.length - 1];
+
+    if (!chord) {
+      if (!last || last.end !== null) return false;
+
+      last.end = time;
+
+      // A phrase that stops on the dominant ends with a half cadence
+      this.detectHalfCadence(time);
+      return true;
+    }
+
+    if (last && this.isSameChord(last, chord)) {
+      if (last.end === null) return false;
+
+      // The same chord struck again carries on the same event
+      last.end = null;
+      return true;
+    }
+
+    // Chords that lasted only a moment were passing states of a new chord
+    if (last && last.end === null && time - last.start < MIN_CHORD_MS) {
+      this.removeLastEvent();
+
+      const previous = this.events[this.events.length - 1];
+      if (previous && this.isSameChord(previous, chord)) {
+        previous.end = null;
+        return true;
+      }
+    } else if (last && last.end === null) {
+      last.end = time;
+    }
+
+    this.addEvent(chord, keyName, time);
+    return true;
+  }
+
+  /**
+   * Chord history, oldest first
+   */
+  public getEvents(): ChordEvent[] {
+    return this.events.map((event) => ({ ...event }));
+  }
+
+  /**
+   * The chord sounding now, if any
+   */
+  public getCurrentEvent(): ChordEvent | null {
+    const last = this.events[this.events.length - 1];
+    return last && last.end === null ? { ...last } : null;
+  }
+
+  /**
+   * Cadences found so far, oldest first
+   */
+  public getCadences(): Cadence[] {
+    return [...this.cadences];
+  }
+
+  /**
+   * Common progressions found so far, oldest first
+   */
+  public getPatterns(): ProgressionPattern[] {
+    return [...this.patterns];
+  }
+
+  /**
+   * Forget the history
+   */
+  public reset(): void {
+    this.events = [];
+    this.cadences = [];
+    this.patterns = [];
+  }
+
+  private addEvent(
+    chord: ChordInfo,
+    keyName: string | null,
+    time: number
+  ): void {
+    const [symbol] = chord.name.split("/");
+
+    this.events.push({
+      id: this.nextEventId++,
+      name: chord.name,
+      romanNumeral: chord.romanNumeral,
+      scaleDegree: chord.scaleDegree,
+      functionType: chord.functionType,
+      triad: getTriadQuality(Chord.get(symbol).intervals),
+      inversion: chord.inversion,
+      keyName,
+      start: time,
+      end: null,
+    });
+
+    if (this.events.length > MAX_EVENTS) {
+      const dropped = this.events.shift()!;
+      this.forgetEvent(dropped.id);
+    }
+
+    this.detectCadence(time);
+    this.detectPatterns(time);
+  }
+
+  // Drop a passing chord together with anything found from it
+  private removeLastEvent(): void {
+    const removed = this.events.pop();
+    if (removed) this.forgetEvent(removed.id);
+  }
+
+  private forgetEvent(eventId: number): void {
+    this.cadences = this.cadences.filter(
+      (cadence) => !cadence.eventIds.includes(eventId)
+    );
+    this.patterns = this.patterns.filter(
+      (pattern) => !pattern.eventIds.includes(eventId)
+    );
+  }
+
+  // Authentic, plagal and deceptive cadences end on the chord just added
+  private detectCadence(time: number): void {
+    const [previous, current] = this.events.slice(-2);
+    if (!previous || !current || !this.inSameKey(previous, current)) return;
+
+    let type: CadenceType | null = null;
+
+    if (this.isDominant(previous) && this.isTonic(current)) {
+      type = "authentic";
+    } else if (this.isSubdominant(previous) && this.isTonic(current)) {
+      type = "plagal";
+    } else if (this.isDominant(previous) && this.isSubmediant(current)) {
+      type = "deceptive";
+    }
+
+    if (!type) return;
+
+    this.cadences.push({
+      type,
+      perfect:
+        type === "authentic" &&
+        previous.scaleDegree === 5 &&
+        previous.inversion === "root" &&
+        current.inversion === "root",
+      keyName: current.keyName!,
+      eventIds: [previous.id, current.id],
+      time,
+    });
+  }
+
+  // Half cadence: the music pauses on the dominant
+  private detectHalfCadence(time: number): void {
+    const [previous, current] = this.events.slice(-2);
+    if (!previous || !current || !this.inSameKey(previous, current)) return;
+
+    // The cadential 6/4 or any other chord can lead to it, but not V itself
+    if (current.scaleDegree !== 5 || !this.isDominant(current)) return;
+    if (this.isDominant(previous)) return;
+
+    // Releasing and restriking the same dominant is still one cadence
+    const alreadyFound = this.cadences.some((cadence) =>
+      cadence.eventIds.includes(current.id)
+    );
+    if (alreadyFound) return;
+
+    this.cadences.push({
+      type: "half",
+      perfect: false,
+      keyName: current.keyName!,
+      eventIds: [previous.id, current.id],
+      time,
+    });
+  }
+
+  // Patterns end on the chord just added
+  private detectPatterns(time: number): void {
+    PATTERNS.forEach((pattern) => {
+      const recent = this.events.slice(-pattern.degrees.length);
+      if (recent.length < pattern.degrees.length) return;
+
+      const keyName = recent[0].keyName;
+      const matches = recent.every(
+        (event, index) =>
+          event.keyName === keyName &&
+          this.isInKey(event) &&
+          event.scaleDegree === pattern.degrees[index]
+      );
+
+      if (matches && keyName) {
+        this.patterns.push({
+          name: pattern.name,
+          keyName,
+          eventIds: recent.map((event) => event.id),
+          time,
+        });
+      }
+    });
+  }
+
+  private isSameChord(event: ChordEvent, chord: ChordInfo): boolean {
+    const [eventSymbol] = event.name.split("/");
+    const [chordSymbol] = chord.name.split("/");
+    return eventSymbol === chordSymbol;
+  }
+
+  private inSameKey(a: ChordEvent, b: ChordEvent): boolean {
+    return a.keyName !== null && a.keyName === b.keyName;
+  }
+
+  // Diatonic or borrowed, so its degree is the degree of its root
+  private isInKey(event: ChordEvent): boolean {
+    return (
+      event.functionType === "diatonic" || event.functionType === "borrowed"
+    );
+  }
+
+  // V (major) or vii° leading to the tonic
+  private isDominant(event: ChordEvent): boolean {
+    if (!this.isInKey(event)) return false;
+    return (
+      (event.scaleDegree === 5 && event.triad === "major") ||
+      (event.scaleDegree === 7 && event.triad === "diminished")
+    );
+  }
+
+  private isTonic(event: ChordEvent): boolean {
+    return (
+      this.isInKey(event) &&
+      event.scaleDegree === 1 &&
+      (event.triad === "major" || event.triad === "minor")
+    );
+  }
+
+  private isSubdominant(event: ChordEvent): boolean {
+    return (
+      this.isInKey(event) &&
+      event.scaleDegree === 4 &&
+      (event.triad === "major" || event.triad === "minor")
+    );
+  }
+
+  private isSubmediant(event: ChordEvent): boolean {
+    return (
+      this.isInKey(event) &&
+      event.scaleDegree === 6 &&
+      (event.triad === "major" || event.triad === "minor")
+    );
+  }
+}
@@ -0,0 +1,132 @@
+// RecordingService.ts
+import {
+  encodeMidiFile,
+  type MidiFileFormat,
+  type RecordedMidiEvent,
+} from "./MidiFileService";
+
+export class RecordingService {
+  private events: RecordedMidiEvent[] = [];
+  private recordingStart: number = 0;
+  private recording: boolean = false;
+
+  /**
+   * Start a new take, discarding the previous one
+   */
+  public startRecording(): void {
+    this.events = [];
+    this.recordingStart = performance.now();
+    this.recording = true;
+  }
+
+  /**
+   * Stop recording and return the captured events
+   */
+  public stopRecording(): RecordedMidiEvent[] {
+    if (this.recording) {
+      // Close any notes still held so the take is self-contained
+      const elapsed = performance.now() - this.recordingStart;
+      this.getHangingNotes(this.events).forEach((event) => {
+        this.events.push({ ...event, type: "noteoff", time: elapsed, value: 0 });
+      });
+    }
+
+    this.recording = false;
+    return this.getEvents();
+  }
+
+  public get isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Time since the take started, while recording
+   */
+  public getElapsed(): number {
+    return this.recording ? performance.now() - this.recordingStart : 0;
+  }
+
+  /**
+   * Record a note on event
+   */
+  public recordNoteOn(note: number, velocity: number, channel: number = 1): void {
+    this.record("noteon", note, velocity, channel);
+  }
+
+  /**
+   * Record a note off event
+   */
+  public recordNoteOff(note: number, velocity: number = 0, channel: number = 1): void {
+    this.record("noteoff", note, velocity, channel);
+  }
+
+  /**
+   * Record a control change event (pedals, modulation, etc.)
+   */
+  public recordControlChange(
+    controller: number,
+    value: number,
+    channel: number = 1
+  ): void {
+    this.record("controlchange", controller, value, channel);
+  }
+
+  /**
+   * Get a copy of the current take
+   */
+  public getEvents(): RecordedMidiEvent[] {
+    return this.events.map((event) => ({ ...event }));
+  }
+
+  public hasRecording(): boolean {
+    return this.events.length > 0;
+  }
+
+  /**
+   * Length of the take in milliseconds
+   */
+  public getDuration(): number {
+    if (this.events.length === 0) return 0;
+    return this.events[this.events.length - 1].time;
+  }
+
+  /**
+   * Encode the take as a Standard MIDI File
+   */
+  public exportMidi(format: MidiFileFormat = 1): Uint8Array {
+    return encodeMidiFile(this.events, { format });
+  }
+
+  private record(
+    type: RecordedMidiEvent["type"],
+    number: number,
+    value: number,
+    channel: number
+  ): void {
+    if (!this.recording) return;
+
+    this.events.push({
+      type,
+      time: performance.now() - this.recordingStart,
+      channel,
+      number,
+      value,
+    });
+  }
+
+  // Find note on events without a matching note off
+  private getHangingNotes(events: RecordedMidiEvent[]): RecordedMidiEvent[] {
+    const held = new Map<string, RecordedMidiEvent>();
+
+    events.forEach((event) => {
+      const key = `${event.channel}:${event.number}`;
+      if (event.type === "noteon") {
+        held.set(key, event);
+      } else if (event.type === "noteoff") {
+        held.delete(key);
+      }
+    });
+
+    return Array.from(held.values());
+  }
+}
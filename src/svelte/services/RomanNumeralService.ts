@@ -0,0 +1,329 @@
+// RomanNumeralService.ts
+import { Note, Interval, Scale } from "@tonaljs/tonal";
+
+export type TriadQuality =
+  | "major"
+  | "minor"
+  | "diminished"
+  | "augmented"
+  | "suspended"
+  | "other";
+
+export type SeventhType = "major" | "minor" | "diminished" | null;
+
+// What kind of chord the numeral describes
+export type HarmonicFunctionType =
+  | "diatonic"
+  | "borrowed"
+  | "secondary"
+  | "neapolitan"
+  | "chromatic";
+
+export interface RomanNumeralAnalysis {
+  numeral: string; // e.g. "V7/V", "♭VI", "N"
+  degree: number; // 1 to 7, relative to the chord's own target for secondary chords
+  functionType: HarmonicFunctionType;
+  borrowedFrom?: string; // mode the chord is borrowed from
+}
+
+// All modes the analysis understands, as accepted by Scale.get
+export const KEY_MODES = [
+  "major",
+  "minor",
+  "dorian",
+  "phrygian",
+  "lydian",
+  "mixolydian",
+  "locrian",
+  "harmonic minor",
+  "melodic minor",
+];
+
+const NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII"];
+
+// Modes whose third is minor; they borrow from the parallel major first
+const MINOR_MODES = [
+  "minor",
+  "dorian",
+  "phrygian",
+  "locrian",
+  "harmonic minor",
+  "melodic minor",
+];
+
+/**
+ * Split a key name like "F# harmonic minor" into tonic and mode
+ */
+export function parseKeyName(keyName: string): { tonic: string; mode: string } {
+  const [tonic, ...modeParts] = keyName.trim().split(" ");
+  return { tonic, mode: modeParts.join(" ") || "major" };
+}
+
+/**
+ * Triad quality and seventh from a chord's intervals (e.g. ["1P", "3m", "5d", "7m"])
+ */
+export function getTriadQuality(intervals: string[]): TriadQuality {
+  const has = (interval: string) => intervals.includes(interval);
+
+  if (has("3M") && has("5A")) return "augmented";
+  if (has("3M")) return "major";
+  if (has("3m") && has("5d")) return "diminished";
+  if (has("3m")) return "minor";
+  if (has("4P") || has("2M")) return "suspended";
+  return "other";
+}
+
+export function getSeventhType(intervals: string[]): SeventhType {
+  if (intervals.includes("7M")) return "major";
+  if (intervals.includes("7m")) return "minor";
+  if (intervals.includes("7d")) return "diminished";
+  return null;
+}
+
+/**
+ * Add inversion figures to a numeral: "V7" with "6/5" gives "V6/5",
+ * "V7/V" with "4/3" gives "V4/3/V" and "I" with "6" gives "I6"
+ */
+export function addFiguredBass(numeral: string, figures: string): string {
+  if (figures === "" || figures === "7") {
+    return numeral;
+  }
+
+  const [chord, ...target] = numeral.split("/");
+  const figured = chord.replace(/7$/, "") + figures;
+  return [figured, ...target].join("/");
+}
+
+/**
+ * Works out Roman numerals for chords in any major, minor or modal key,
+ * recognising borrowed chords, secondary dominants and the Neapolitan.
+ */
+export class RomanNumeralService {
+  /**
+   * Analyse a chord (root and intervals from the root) in a key; null when
+   * the chord cannot be placed
+   */
+  public analyse(
+    root: string,
+    intervals: string[],
+    keyName: string
+  ): RomanNumeralAnalysis | null {
+    const { tonic, mode } = parseKeyName(keyName);
+    const rootChroma = Note.chroma(root);
+    const tonicChroma = Note.chroma(tonic);
+    if (rootChroma === undefined || tonicChroma === undefined) return null;
+
+    const quality = getTriadQuality(intervals);
+    const seventh = getSeventhType(intervals);
+    const chordChromas = this.getChordChromas(root, intervals);
+
+    // 1. Diatonic to the key (minor keys also allow the raised 6th and 7th)
+    const diatonicScales = this.getDiatonicScales(tonic, mode);
+    for (const scale of diatonicScales) {
+      const degree = this.findDegree(scale, rootChroma);
+      if (degree !== -1 && this.fitsScale(chordChromas, scale)) {
+        return {
+          numeral: this.formatNumeral(degree, "", quality, seventh),
+          degree: degree + 1,
+          functionType: "diatonic",
+        };
+      }
+    }
+
+    const keyScale = diatonicScales[0];
+
+    // Secondary chords target the degrees as used in practice (major V in minor)
+    const functionalScale = diatonicScales[diatonicScales.length > 1 ? 1 : 0];
+    const semitonesAboveTonic = (rootChroma - tonicChroma + 12) % 12;
+
+    // 2. Neapolitan: major triad on the lowered second degree
+    if (
+      semitonesAboveTonic === 1 &&
+      quality === "major" &&
+      seventh === null
+    ) {
+      return { numeral: "N", degree: 2, functionType: "neapolitan" };
+    }
+
+    // 3. Secondary dominant or leading-tone chord of another degree
+    const secondary = this.analyseSecondary(
+      rootChroma,
+      quality,
+      seventh,
+      functionalScale
+    );
+    if (secondary) return secondary;
+
+    // 4. Borrowed from the parallel major or minor
+    for (const parallelMode of this.getParallelModes(mode)) {
+      const parallelScale = this.getScaleChromas(tonic, parallelMode);
+      if (
+        this.findDegree(parallelScale, rootChroma) !== -1 &&
+        this.fitsScale(chordChromas, parallelScale)
+      ) {
+        const degree = this.getLetterDegree(tonic, root);
+        return {
+          numeral: this.formatNumeral(
+            degree,
+            this.getAccidental(rootChroma, keyScale[degree]),
+            quality,
+            seventh
+          ),
+          degree: degree + 1,
+          functionType: "borrowed",
+          borrowedFrom: parallelMode,
+        };
+      }
+    }
+
+    // 5. Anything else, named by its distance from the tonic
+    const degree = this.getLetterDegree(tonic, root);
+    return {
+      numeral: this.formatNumeral(
+        degree,
+        this.getAccidental(rootChroma, keyScale[degree]),
+        quality,
+        seventh
+      ),
+      degree: degree + 1,
+      functionType: "chromatic",
+    };
+  }
+
+  // V/x, V7/x, vii°/x and vii°7/x for any degree with a major or minor triad
+  private analyseSecondary(
+    rootChroma: number,
+    quality: TriadQuality,
+    seventh: SeventhType,
+    keyScale: number[]
+  ): RomanNumeralAnalysis | null {
+    const isDominant =
+      quality === "major" && (seventh === null || seventh === "minor");
+    const isLeadingTone = quality === "diminished" && seventh !== "major";
+    if (!isDominant && !isLeadingTone) return null;
+
+    // A dominant resolves down a fifth, a leading-tone chord up a semitone
+    const targetChroma = isDominant
+      ? (rootChroma + 5) % 12
+      : (rootChroma + 1) % 12;
+    const targetDegree = this.findDegree(keyScale, targetChroma);
+
+    // The tonic itself is not a secondary target
+    if (targetDegree <= 0) return null;
+
+    const targetQuality = this.getDiatonicTriadQuality(keyScale, targetDegree);
+    if (targetQuality !== "major" && targetQuality !== "minor") return null;
+
+    const target = this.formatNumeral(targetDegree, "", targetQuality, null);
+    const applied = isDominant
+      ? this.formatNumeral(4, "", "major", seventh)
+      : this.formatNumeral(6, "", "diminished", seventh);
+
+    return {
+      numeral: `${applied}/${target}`,
+      degree: targetDegree + 1,
+      functionType: "secondary",
+    };
+  }
+
+  // Parallel modes to borrow from, closest first
+  private getParallelModes(mode: string): string[] {
+    if (mode === "major") return ["minor"];
+    if (mode === "minor") return ["major"];
+    return MINOR_MODES.includes(mode) ? ["minor", "major"] : ["major", "minor"];
+  }
+
+  // Quality of the triad built on a degree from the scale's own notes
+  private getDiatonicTriadQuality(
+    scale: number[],
+    degree: number
+  ): TriadQuality {
+    const root = scale[degree];
+    const third = (scale[(degree + 2) % 7] - root + 12) % 12;
+    const fifth = (scale[(degree + 4) % 7] - root + 12) % 12;
+
+    if (third === 4 && fifth === 7) return "major";
+    if (third === 3 && fifth === 7) return "minor";
+    if (third === 3 && fifth === 6) return "diminished";
+    if (third === 4 && fifth === 8) return "augmented";
+    return "other";
+  }
+
+  // Scales whose chords count as diatonic in this key
+  private getDiatonicScales(tonic: string, mode: string): number[][] {
+    const scales = [this.getScaleChromas(tonic, mode)];
+
+    // Common-practice minor raises the 6th and 7th degrees as needed
+    if (mode === "minor") {
+      scales.push(this.getScaleChromas(tonic, "harmonic minor"));
+      scales.push(this.getScaleChromas(tonic, "melodic minor"));
+    }
+
+    return scales.filter((scale) => scale.length === 7);
+  }
+
+  private getScaleChromas(tonic: string, mode: string): number[] {
+    return Scale.get(`${tonic} ${mode}`).notes.map(
+      (note) => Note.chroma(note) ?? 0
+    );
+  }
+
+  private getChordChromas(root: string, intervals: string[]): number[] {
+    return intervals
+      .map((interval) => Note.chroma(Note.transpose(root, interval)))
+      .filter((chroma): chroma is number => chroma !== undefined);
+  }
+
+  private fitsScale(chordChromas: number[], scale: number[]): boolean {
+    return chordChromas.every((chroma) => scale.includes(chroma));
+  }
+
+  private findDegree(scale: number[], chroma: number): number {
+    return scale.indexOf(chroma);
+  }
+
+  // Degree (0 to 6) from the letter names, so Ab in C is a sixth
+  private getLetterDegree(tonic: string, root: string): number {
+    const interval = Interval.get(
+      Interval.distance(Note.pitchClass(tonic), Note.pitchClass(root))
+    );
+    const num = interval.num ?? 1;
+    return (((num - 1) % 7) + 7) % 7;
+  }
+
+  private getAccidental(rootChroma: number, scaleChroma: number): string {
+    const difference = (rootChroma - scaleChroma + 12) % 12;
+    if (difference === 1) return "♯";
+    if (difference === 11) return "♭";
+    if (difference === 2) return "𝄪";
+    if (difference === 10) return "𝄫";
+    return "";
+  }
+
+  private formatNumeral(
+    degree: number,
+    accidental: string,
+    quality: TriadQuality,
+    seventh: SeventhType
+  ): string {
+    const lower = quality === "minor" || quality === "diminished";
+    let numeral =
+      accidental + (lower ? NUMERALS[degree].toLowerCase() : NUMERALS[degree]);
+
+    if (quality === "diminished") {
+      numeral += seventh === "minor" ? "ø" : "°";
+    } else if (quality === "augmented") {
+      numeral += "+";
+    } else if (quality === "suspended") {
+      numeral += "sus";
+    }
+
+    if (seventh === "major") {
+      numeral += "maj7";
+    } else if (seventh !== null) {
+      numeral += "7";
+    }
+
+    return numeral;
+  }
+}
@@ -0,0 +1,112 @@
+// ScalaFileService.ts
+
+// A scale from a Scala .scl file
+export interface ScalaScale {
+  description: string;
+  cents: number[]; // Each degree above the first, ending with the period
+}
+
+// How a Scala .kbm file lays a scale out on the keyboard
+export interface ScalaKeyboardMap {
+  size: number; // 0 maps every key to the next degree
+  firstNote: number;
+  lastNote: number;
+  middleNote: number; // Key that plays degree 0
+  referenceNote: number;
+  referenceFrequency: number;
+  octaveDegree: number; // Degree that repeats the pattern (0 uses the period)
+  mapping: (number | null)[]; // Degree per key of the pattern; null is unmapped
+}
+
+/**
+ * Parse a Scala scale file. Pitches are cents when they contain a period,
+ * otherwise ratios such as 3/2 or 2.
+ */
+export function parseScalaFile(text: string): ScalaScale {
+  const lines = getDataLines(text);
+  if (lines.length < 2) {
+    throw new Error("Not a Scala scale file");
+  }
+
+  const description = lines[0].trim();
+  const count = parseInt(lines[1], 10);
+  if (isNaN(count) || count < 1) {
+    throw new Error("Invalid number of notes in Scala file");
+  }
+
+  const pitchLines = lines.slice(2, 2 + count);
+  if (pitchLines.length < count) {
+    throw new Error(`Scala file lists ${pitchLines.length} of ${count} notes`);
+  }
+
+  return { description, cents: pitchLines.map(parsePitch) };
+}
+
+/**
+ * Parse a Scala keyboard mapping file
+ */
+export function parseKeyboardMapFile(text: string): ScalaKeyboardMap {
+  const lines = getDataLines(text)
+    .filter((line) => line.trim() !== "")
+    .map((line) => line.trim().split(/\s+/)[0]);
+  if (lines.length < 7) {
+    throw new Error("Not a Scala keyboard mapping file");
+  }
+
+  const [
+    size,
+    firstNote,
+    lastNote,
+    middleNote,
+    referenceNote,
+    referenceFrequency,
+    octaveDegree,
+  ] = lines.slice(0, 7).map(Number);
+
+  if ([size, firstNote, lastNote, middleNote, referenceNote].some(isNaN)) {
+    throw new Error("Invalid keyboard mapping header");
+  }
+  if (!(referenceFrequency > 0)) {
+    throw new Error("Invalid reference frequency in keyboard mapping");
+  }
+
+  // Missing entries at the end are unmapped
+  const mapping = Array.from({ length: size }, (_, index) => {
+    const entry = lines[7 + index];
+    if (entry === undefined || entry.toLowerCase() === "x") return null;
+    const degree = parseInt(entry, 10);
+    return isNaN(degree) ? null : degree;
+  });
+
+  return {
+    size,
+    firstNote,
+    lastNote,
+    middleNote,
+    referenceNote,
+    referenceFrequency,
+    octaveDegree: octaveDegree || 0,
+    mapping,
+  };
+}
+
+// Lines that are not comments; the description may be empty
+function getDataLines(text: string): string[] {
+  return text.split(/\r?\n/).filter((line) => !line.startsWith("!"));
+}
+
+function parsePitch(line: string): number {
+  const value = line.trim().split(/\s+/)[0];
+
+  if (value.includes(".")) {
+    const cents = parseFloat(value);
+    if (isNaN(cents)) throw new Error(`Invalid pitch "${value}"`);
+    return cents;
+  }
+
+  const [numerator, denominator = "1"] = value.split("/");
+  const ratio = parseInt(numerator, 10) / parseInt(denominator, 10);
+  if (!(ratio > 0)) throw new Error(`Invalid pitch "${value}"`);
+
+  return 1200 * Math.log2(ratio);
+}
@@ -1,4 +1,7 @@
 // SynthService.ts
+import { PedalService } from "./PedalService";
+import { getTuningService, type TuningService } from "./TuningService";
+
 export interface OscillatorSettings {
   type: OscillatorType;
   detune: number; // cents
@@ -24,11 +27,29 @@ export interface FilterSettings {
   envelopeRelease: number;
 }
 
+export type ModulationDestination = "none" | "vibrato" | "filter";
+
+export interface ModulationSettings {
+  pitchBendRange: number; // semitones at full bend
+  vibratoRate: number; // Hz
+  vibratoDepth: number; // cents at full modulation
+  filterModAmount: number; // Hz added to the cutoff at full modulation
+  modWheelDestination: ModulationDestination;
+  aftertouchDestination: ModulationDestination;
+  aftertouchAmount: number; // 0 to 1
+}
+
 export interface SynthVoice {
   note: number;
   oscillators: OscillatorNode[];
+  oscillatorGains?: GainNode[];
   gainNode: GainNode;
   filterNode?: BiquadFilterNode;
+  vibratoGain?: GainNode;
+  filterModGain?: GainNode;
+  pressure?: number; // poly aftertouch, 0 to 1
+  velocity?: number;
+  startTime?: number;
   releaseTime?: number;
 }
 
@@ -37,12 +58,35 @@ export interface SynthPreset {
   oscillators: OscillatorSettings[];
   envelope: EnvelopeSettings;
   filter: FilterSettings;
+  modulation: ModulationSettings;
 }
 
+// MIDI controller number of the modulation wheel
+export const MOD_WHEEL = 1;
+
+// Time constant for controller and parameter changes, long enough to avoid zipper noise
+const PARAMETER_SMOOTHING = 0.015;
+
 export class SynthService {
   private audioContext: AudioContext;
   private voices: Map<number, SynthVoice> = new Map();
   private masterGain: GainNode;
+  private streamDestination: MediaStreamAudioDestinationNode | null = null;
+  private masterVolume: number = 0.7;
+  private pedals: PedalService = new PedalService();
+
+  // Shared tuning; changes retune the voices already sounding
+  private tuning: TuningService = getTuningService();
+  private unsubscribeTuning: () => void;
+
+  // Shared modulation sources
+  private lfo: OscillatorNode;
+  private modSource: ConstantSourceNode;
+
+  // Current expressive controller positions
+  private pitchBend: number = 0; // -1 to 1
+  private modWheel: number = 0; // 0 to 1
+  private channelPressure: number = 0; // 0 to 1
 
   // Default settings
   private oscillatorsSettings: OscillatorSettings[] = [
@@ -68,6 +112,16 @@ export class SynthService {
     envelopeRelease: 0.5,
   };
 
+  private modulationSettings: ModulationSettings = {
+    pitchBendRange: 2,
+    vibratoRate: 5.5,
+    vibratoDepth: 50,
+    filterModAmount: 3000,
+    modWheelDestination: "vibrato",
+    aftertouchDestination: "filter",
+    aftertouchAmount: 0.5,
+  };
+
   // Presets collection
   private presets: Record<string, SynthPreset> = {};
 
@@ -77,11 +131,43 @@ export class SynthService {
 
     // Create master gain node
     this.masterGain = this.audioContext.createGain();
-    this.masterGain.gain.value = 0.7;
+    this.masterGain.gain.value = this.masterVolume;
     this.masterGain.connect(this.audioContext.destination);
 
+    // Vibrato LFO and a constant source for filter modulation, scaled per voice
+    this.lfo = this.audioContext.createOscillator();
+    this.lfo.type = "sine";
+    this.lfo.frequency.value = this.modulationSettings.vibratoRate;
+    this.lfo.start();
+
+    this.modSource = this.audioContext.createConstantSource();
+    this.modSource.offset.value = 1;
+    this.modSource.start();
+
     // Initialize with some presets
     this.initializePresets();
+
+    this.unsubscribeTuning = this.tuning.subscribe(() => this.retuneVoices());
+  }
+
+  /**
+   * Stop listening for tuning changes when the synth is no longer used
+   */
+  public destroy(): void {
+    this.allNotesOff();
+    this.unsubscribeTuning();
+  }
+
+  /**
+   * The synth output as a stream, e.g. to record it alongside a video
+   */
+  public getOutputStream(): MediaStream {
+    if (!this.streamDestination) {
+      this.streamDestination =
+        this.audioContext.createMediaStreamDestination();
+      this.masterGain.connect(this.streamDestination);
+    }
+    return this.streamDestination.stream;
   }
 
   /**
@@ -97,14 +183,19 @@ export class SynthService {
    * Set master volume
    */
   public setMasterVolume(value: number): void {
-    this.masterGain.gain.value = Math.max(0, Math.min(1, value));
+    this.masterVolume = Math.max(0, Math.min(1, value));
+    this.masterGain.gain.setTargetAtTime(
+      this.masterVolume,
+      this.audioContext.currentTime,
+      PARAMETER_SMOOTHING
+    );
   }
 
   /**
    * Get master volume
    */
   public getMasterVolume(): number {
-    return this.masterGain.gain.value;
+    return this.masterVolume;
   }
 
   /**
@@ -120,6 +211,7 @@ export class SynthService {
     this.oscillatorsSettings = [...preset.oscillators];
     this.envelopeSettings = { ...preset.envelope };
     this.filterSettings = { ...preset.filter };
+    this.updateModulation(preset.modulation);
   }
 
   /**
@@ -144,10 +236,37 @@ export class SynthService {
   }
 
   /**
-   * Convert MIDI note number to frequency
+   * Convert MIDI note number to frequency in the current tuning
    */
   private midiToFrequency(note: number): number {
-    return 440 * Math.pow(2, (note - 69) / 12);
+    return this.tuning.getFrequency(note);
+  }
+
+  /**
+   * Glide every live oscillator to its pitch in the current tuning
+   */
+  private retuneVoices(): void {
+    const now = this.audioContext.currentTime;
+
+    this.voices.forEach((voice) => {
+      const baseFreq = this.midiToFrequency(voice.note);
+      voice.oscillators.forEach((osc, index) => {
+        const settings = this.oscillatorsSettings[index];
+        const semitone = settings ? settings.semitone : 0;
+        osc.frequency.setTargetAtTime(
+          baseFreq * this.semitoneToRatio(semitone),
+          now,
+          PARAMETER_SMOOTHING
+        );
+      });
+    });
+  }
+
+  /**
+   * Current pitch bend in cents
+   */
+  private getBendCents(): number {
+    return this.pitchBend * this.modulationSettings.pitchBendRange * 100;
   }
 
   /**
@@ -162,23 +281,32 @@ export class SynthService {
    * Play a note
    */
   public noteOn(note: number, velocity: number = 0.7): void {
-    // If note is already playing, stop it first
+    // If note is already playing (or ringing under a pedal), stop it first
     if (this.voices.has(note)) {
-      this.noteOff(note);
+      this.releaseVoice(note);
     }
 
+    this.pedals.keyDown(note);
+    velocity = this.pedals.applySoftPedal(velocity);
+
     // Create voice elements
     const voiceGain = this.audioContext.createGain();
     voiceGain.gain.value = 0;
 
     // Create filter if enabled
     let filterNode: BiquadFilterNode | undefined;
+    let filterModGain: GainNode | undefined;
     if (this.filterSettings) {
       filterNode = this.audioContext.createBiquadFilter();
       filterNode.type = this.filterSettings.type;
       filterNode.frequency.value = this.filterSettings.frequency;
       filterNode.Q.value = this.filterSettings.Q;
 
+      // The soft pedal also darkens the tone a little
+      const cutoff = this.pedals.isSoftDown
+        ? this.filterSettings.frequency * 0.7
+        : this.filterSettings.frequency;
+
       if (filterNode.gain) {
         filterNode.gain.value = this.filterSettings.gain;
       }
@@ -186,26 +314,38 @@ export class SynthService {
       // Connect filter envelope
       const now = this.audioContext.currentTime;
       filterNode.frequency.cancelScheduledValues(now);
-      filterNode.frequency.setValueAtTime(this.filterSettings.frequency, now);
+      filterNode.frequency.setValueAtTime(cutoff, now);
       filterNode.frequency.linearRampToValueAtTime(
-        this.filterSettings.frequency + this.filterSettings.envelopeAmount,
+        cutoff + this.filterSettings.envelopeAmount,
         now + this.filterSettings.envelopeAttack
       );
       filterNode.frequency.linearRampToValueAtTime(
-        this.filterSettings.frequency,
+        cutoff,
         now +
           this.filterSettings.envelopeAttack +
           this.filterSettings.envelopeDecay
       );
 
+      // Mod wheel and aftertouch push the cutoff up
+      filterModGain = this.audioContext.createGain();
+      filterModGain.gain.value = 0;
+      this.modSource.connect(filterModGain);
+      filterModGain.connect(filterNode.frequency);
+
       voiceGain.connect(filterNode);
       filterNode.connect(this.masterGain);
     } else {
       voiceGain.connect(this.masterGain);
     }
 
+    // Vibrato depth for this voice, fed by the shared LFO
+    const vibratoGain = this.audioContext.createGain();
+    vibratoGain.gain.value = 0;
+    this.lfo.connect(vibratoGain);
+
     // Create oscillators
     const oscillators: OscillatorNode[] = [];
+    const oscillatorGains: GainNode[] = [];
 
     for (const settings of this.oscillatorsSettings) {
       const osc = this.audioContext.createOscillator();
@@ -216,7 +356,8 @@ export class SynthService {
       const freqWithSemitone =
         baseFreq * this.semitoneToRatio(settings.semitone);
       osc.frequency.value = freqWithSemitone;
-      osc.detune.value = settings.detune;
+      osc.detune.value = settings.detune + this.getBendCents();
+      vibratoGain.connect(osc.detune);
 
       // Create individual oscillator gain to mix them
       const oscGain = this.audioContext.createGain();
@@ -225,6 +366,7 @@ export class SynthService {
       osc.connect(oscGain);
       oscGain.connect(voiceGain);
       oscillators.push(osc);
+      oscillatorGains.push(oscGain);
 
       // Start the oscillator
       osc.start();
@@ -244,20 +386,178 @@ export class SynthService {
     );
 
     // Store the voice
-    this.voices.set(note, {
+    const voice: SynthVoice = {
       note,
       oscillators,
+      oscillatorGains,
       gainNode: voiceGain,
       filterNode,
-    });
+      vibratoGain,
+      filterModGain,
+      pressure: 0,
+      velocity,
+      startTime: now,
+    };
+    this.voices.set(note, voice);
+    this.updateVoiceModulation(voice);
   }
 
   /**
-   * Stop a note
+   * Stop a note (it keeps ringing while held by the sustain or sostenuto pedal)
    */
   public noteOff(note: number): void {
+    if (!this.pedals.keyUp(note)) return;
+    this.releaseVoice(note);
+  }
+
+  /**
+   * Apply a pedal control change (CC64 sustain, CC66 sostenuto, CC67 soft)
+   */
+  public pedalChange(controller: number, value: number | boolean): void {
+    const released = this.pedals.handleControlChange(controller, value);
+    released.forEach((note) => this.releaseVoice(note));
+  }
+
+  /**
+   * Bend all sounding notes (-1 to 1, scaled by the preset's bend range)
+   */
+  public setPitchBend(value: number): void {
+    this.pitchBend = Math.max(-1, Math.min(1, value));
+    this.applyPitchBend();
+  }
+
+  /**
+   * Set the mod wheel position (0 to 1)
+   */
+  public setModWheel(value: number): void {
+    this.modWheel = Math.max(0, Math.min(1, value));
+    this.voices.forEach((voice) => this.updateVoiceModulation(voice));
+  }
+
+  /**
+   * Set aftertouch (0 to 1); with a note it is polyphonic, otherwise channel-wide
+   */
+  public setAftertouch(value: number, note?: number): void {
+    const pressure = Math.max(0, Math.min(1, value));
+
+    if (note === undefined) {
+      this.channelPressure = pressure;
+      this.voices.forEach((voice) => this.updateVoiceModulation(voice));
+      return;
+    }
+
     const voice = this.voices.get(note);
-    if (!voice) return;
+    if (voice) {
+      voice.pressure = pressure;
+      this.updateVoiceModulation(voice);
+    }
+  }
+
+  /**
+   * Return pitch bend, mod wheel and aftertouch to rest
+   */
+  public resetControllers(): void {
+    this.pitchBend = 0;
+    this.modWheel = 0;
+    this.channelPressure = 0;
+    this.voices.forEach((voice) => {
+      voice.pressure = 0;
+      this.updateVoiceModulation(voice);
+    });
+    this.applyPitchBend();
+  }
+
+  /**
+   * Get the current modulation settings
+   */
+  public getModulation(): ModulationSettings {
+    return { ...this.modulationSettings };
+  }
+
+  /**
+   * Update modulation settings
+   */
+  public updateModulation(settings: Partial<ModulationSettings>): void {
+    this.modulationSettings = {
+      ...this.modulationSettings,
+      ...settings,
+    };
+
+    const now = this.audioContext.currentTime;
+    this.lfo.frequency.setTargetAtTime(
+      this.modulationSettings.vibratoRate,
+      now,
+      PARAMETER_SMOOTHING
+    );
+
+    // Range and destination changes affect notes already sounding
+    this.applyPitchBend();
+    this.voices.forEach((voice) => this.updateVoiceModulation(voice));
+  }
+
+  /**
+   * Apply the current pitch bend to every live oscillator
+   */
+  private applyPitchBend(): void {
+    const now = this.audioContext.currentTime;
+    const bend = this.getBendCents();
+
+    this.voices.forEach((voice) => {
+      voice.oscillators.forEach((osc, index) => {
+        const settings = this.oscillatorsSettings[index];
+        const detune = (settings ? settings.detune : 0) + bend;
+        osc.detune.setTargetAtTime(detune, now, PARAMETER_SMOOTHING);
+      });
+    });
+  }
+
+  /**
+   * Set a voice's vibrato depth and filter offset from the mod wheel and aftertouch
+   */
+  private updateVoiceModulation(voice: SynthVoice): void {
+    const now = this.audioContext.currentTime;
+    const pressure = Math.max(this.channelPressure, voice.pressure ?? 0);
+
+    voice.vibratoGain?.gain.setTargetAtTime(
+      this.getModulationAmount("vibrato", pressure) *
+        this.modulationSettings.vibratoDepth,
+      now,
+      PARAMETER_SMOOTHING
+    );
+    voice.filterModGain?.gain.setTargetAtTime(
+      this.getModulationAmount("filter", pressure) *
+        this.modulationSettings.filterModAmount,
+      now,
+      PARAMETER_SMOOTHING
+    );
+  }
+
+  /**
+   * How strongly a destination is modulated (0 to 1)
+   */
+  private getModulationAmount(
+    destination: ModulationDestination,
+    pressure: number
+  ): number {
+    let amount = 0;
+
+    if (this.modulationSettings.modWheelDestination === destination) {
+      amount += this.modWheel;
+    }
+
+    if (this.modulationSettings.aftertouchDestination === destination) {
+      amount += pressure * this.modulationSettings.aftertouchAmount;
+    }
+
+    return Math.min(1, amount);
+  }
+
+  /**
+   * Run the release stage of a voice
+   */
+  private releaseVoice(note: number): void {
+    const voice = this.voices.get(note);
+    if (!voice || voice.releaseTime !== undefined) return;
 
     const now = this.audioContext.currentTime;
     const releaseEnd = now + this.envelopeSettings.release;
@@ -288,18 +588,38 @@ export class SynthService {
     // Set release time so we can clean up later
     voice.releaseTime = releaseEnd;
 
-    // Schedule cleanup
+    // Schedule cleanup (unless the note has been struck again meanwhile)
     setTimeout(() => {
-      this.voices.delete(note);
+      this.disconnectModulation(voice);
+      if (this.voices.get(note) === voice) {
+        this.voices.delete(note);
+      }
     }, this.envelopeSettings.release * 1000 + 100);
   }
 
   /**
-   * Stop all notes
+   * Detach a finished voice from the shared modulation sources
+   */
+  private disconnectModulation(voice: SynthVoice): void {
+    try {
+      if (voice.vibratoGain) {
+        this.lfo.disconnect(voice.vibratoGain);
+      }
+      if (voice.filterModGain) {
+        this.modSource.disconnect(voice.filterModGain);
+      }
+    } catch (error) {
+      // Already disconnected
+    }
+  }
+
+  /**
+   * Stop all notes, ignoring pedals
    */
   public allNotesOff(): void {
+    this.pedals.reset();
     const notes = Array.from(this.voices.keys());
-    notes.forEach((note) => this.noteOff(note));
+    notes.forEach((note) => this.releaseVoice(note));
   }
 
   /**
@@ -320,6 +640,7 @@ export class SynthService {
     };
 
     // Update active voices
+    const now = this.audioContext.currentTime;
     this.voices.forEach((voice) => {
       const osc = voice.oscillators[index];
       if (!osc) return;
@@ -329,7 +650,20 @@ export class SynthService {
       }
 
       if (settings.detune !== undefined) {
-        osc.detune.value = settings.detune;
+        osc.detune.setTargetAtTime(
+          settings.detune + this.getBendCents(),
+          now,
+          PARAMETER_SMOOTHING
+        );
+      }
+
+      const oscGain = voice.oscillatorGains?.[index];
+      if (settings.gain !== undefined && oscGain) {
+        oscGain.gain.setTargetAtTime(
+          settings.gain * (voice.velocity ?? 1),
+          now,
+          PARAMETER_SMOOTHING
+        );
       }
 
       if (settings.semitone !== undefined) {
@@ -349,6 +683,24 @@ export class SynthService {
       ...this.envelopeSettings,
       ...settings,
     };
+
+    // Held notes that reached their sustain stage move to the new level
+    if (settings.sustain !== undefined) {
+      const now = this.audioContext.currentTime;
+      const sustainStart =
+        this.envelopeSettings.attack + this.envelopeSettings.decay;
+
+      this.voices.forEach((voice) => {
+        if (!this.isPastStage(voice, sustainStart)) return;
+
+        voice.gainNode.gain.cancelScheduledValues(now);
+        voice.gainNode.gain.setTargetAtTime(
+          (voice.velocity ?? 1) * this.envelopeSettings.sustain,
+          now,
+          PARAMETER_SMOOTHING
+        );
+      });
+    }
   }
 
   /**
@@ -361,6 +713,7 @@ export class SynthService {
     };
 
     // Update active voice filters
+    const now = this.audioContext.currentTime;
     this.voices.forEach((voice) => {
       if (!voice.filterNode) return;
 
@@ -368,12 +721,24 @@ export class SynthService {
         voice.filterNode.type = settings.type;
       }
 
-      if (settings.frequency !== undefined) {
-        // Don't update immediately, as it might be during an envelope
+      // Only move the cutoff once the filter envelope has finished
+      if (
+        settings.frequency !== undefined &&
+        this.isPastStage(
+          voice,
+          this.filterSettings.envelopeAttack + this.filterSettings.envelopeDecay
+        )
+      ) {
+        voice.filterNode.frequency.cancelScheduledValues(now);
+        voice.filterNode.frequency.setTargetAtTime(
+          settings.frequency,
+          now,
+          PARAMETER_SMOOTHING
+        );
       }
 
       if (settings.Q !== undefined) {
-        voice.filterNode.Q.value = settings.Q;
+        voice.filterNode.Q.setTargetAtTime(settings.Q, now, PARAMETER_SMOOTHING);
       }
 
       if (settings.gain !== undefined && voice.filterNode.gain) {
@@ -382,6 +747,37 @@ export class SynthService {
     });
   }
 
+  /**
+   * Get the current oscillator settings
+   */
+  public getOscillators(): OscillatorSettings[] {
+    return this.oscillatorsSettings.map((settings) => ({ ...settings }));
+  }
+
+  /**
+   * Get the current envelope settings
+   */
+  public getEnvelope(): EnvelopeSettings {
+    return { ...this.envelopeSettings };
+  }
+
+  /**
+   * Get the current filter settings
+   */
+  public getFilter(): FilterSettings {
+    return { ...this.filterSettings };
+  }
+
+  /**
+   * Whether a held voice has run longer than the given stage (seconds)
+   */
+  private isPastStage(voice: SynthVoice, stageLength: number): boolean {
+    if (voice.releaseTime !== undefined || voice.startTime === undefined) {
+      return false;
+    }
+    return this.audioContext.currentTime >= voice.startTime + stageLength;
+  }
+
   private initializePresets() {
     // Jupiter 8 style brass
     this.presets["jupiter-brass"] = {
@@ -406,6 +802,15 @@ export class SynthService {
         envelopeDecay: 0.2,
         envelopeRelease: 0.3,
       },
+      modulation: {
+        pitchBendRange: 2,
+        vibratoRate: 5,
+        vibratoDepth: 40,
+        filterModAmount: 2500,
+        modWheelDestination: "vibrato",
+        aftertouchDestination: "filter",
+        aftertouchAmount: 0.6,
+      },
     };
 
     // Jupiter 8 style strings
@@ -432,6 +837,15 @@ export class SynthService {
         envelopeDecay: 1.0,
         envelopeRelease: 1.0,
       },
+      modulation: {
+        pitchBendRange: 2,
+        vibratoRate: 6,
+        vibratoDepth: 30,
+        filterModAmount: 1500,
+        modWheelDestination: "vibrato",
+        aftertouchDestination: "vibrato",
+        aftertouchAmount: 0.5,
+      },
     };
 
     // Jupiter 8 style bass
@@ -457,6 +871,15 @@ export class SynthService {
         envelopeDecay: 0.1,
         envelopeRelease: 0.1,
       },
+      modulation: {
+        pitchBendRange: 12,
+        vibratoRate: 5,
+        vibratoDepth: 20,
+        filterModAmount: 3000,
+        modWheelDestination: "filter",
+        aftertouchDestination: "none",
+        aftertouchAmount: 0.5,
+      },
     };
   }
 }
@@ -0,0 +1,421 @@
+// TempoService.ts
+
+export interface TempoState {
+  bpm: number | null; // null until enough notes have been played
+  period: number; // milliseconds per beat (0 without a tempo)
+  confidence: number; // How well the beat grid explains the onsets (0 to 1)
+  beatTime: number; // Timestamp of a beat, a downbeat once the meter is known
+  beatsPerBar: number | null;
+  meterConfidence: number; // 0 to 1
+  lastOnsetTime: number; // 0 before any note
+}
+
+// Where a moment falls on the beat grid
+export interface BeatPosition {
+  beat: number; // Whole beats since the reference downbeat
+  beatInBar: number; // 0 is the downbeat
+  phase: number; // Progress through the current beat (0 to 1)
+}
+
+export type TempoListener = (state: TempoState) => void;
+
+// How well a bar length and downbeat fit the accents
+interface MeterFit {
+  beatsPerBar: number;
+  offset: number; // Beat of the reference grid that is a downbeat
+  contrast: number; // Downbeats against the average beat (-1 to 1)
+  dominance: number; // Downbeats against the next strongest beat (-1 to 1)
+}
+
+// A single onset: notes struck together, with how strongly they were struck
+interface Onset {
+  time: number;
+  strength: number;
+}
+
+const INITIAL_STATE: TempoState = {
+  bpm: null,
+  period: 0,
+  confidence: 0,
+  beatTime: 0,
+  beatsPerBar: null,
+  meterConfidence: 0,
+  lastOnsetTime: 0,
+};
+
+// Notes closer together than this are one onset, e.g. a chord (ms)
+const CHORD_WINDOW = 40;
+
+// Onsets older than this are forgotten (ms)
+const HISTORY_WINDOW = 8000;
+
+// Longest gap between two onsets used to estimate the tempo (ms)
+const MAX_INTERVAL = 2000;
+
+// A pause this long starts a new passage with no tempo yet (ms)
+const MAX_GAP = 4000;
+
+const MIN_ONSETS = 4;
+const MIN_BPM = 40;
+const MAX_BPM = 200;
+
+// Tempo humans tend to hear when several are possible (BPM)
+const PREFERRED_BPM = 110;
+
+// Spread of an interval around the beat it belongs to, relative to the beat
+const TIMING_TOLERANCE = 0.05;
+
+// Intervals of up to this many beats count as evidence for a tempo
+const MAX_BEAT_MULTIPLE = 4;
+
+// Share of a beat an onset may be early or late and still fall on the grid
+const GRID_TOLERANCE = 0.12;
+
+// Meters tried, in order of preference when they fit equally well
+const METERS = [4, 3, 2];
+
+// How far downbeats must stand out from beat 3 to make 2/4 into 4/4
+const METER_DOMINANCE = 0.1;
+
+/**
+ * Follows the tempo, beat and meter of live playing from note onsets alone.
+ *
+ * Intervals between onsets (not only neighbouring ones) vote for the tempos
+ * they fit; the beat phase is the weighted circular mean of recent onsets on
+ * that period; and the meter is the bar length whose downbeats stand out
+ * most, with chords, loud notes and low notes counting as accents.
+ *
+ * Subscribing follows the Svelte store contract, so components can use
+ * `$tempo` directly.
+ */
+export class TempoService {
+  private onsets: Onset[] = [];
+  private state: TempoState = { ...INITIAL_STATE };
+  private listeners: TempoListener[] = [];
+
+  /**
+   * Register a note start (time in ms, velocity 0 to 1)
+   */
+  public addNote(
+    midiNumber: number,
+    velocity: number,
+    time: number = Date.now()
+  ): void {
+    const last = this.onsets[this.onsets.length - 1];
+
+    if (last && time - last.time > MAX_GAP) {
+      this.onsets = [];
+    }
+
+    // Low notes mark the bar more than high ones
+    const strength = velocity + Math.max(0, (60 - midiNumber) / 24);
+
+    const current = this.onsets[this.onsets.length - 1];
+    if (current && time - current.time < CHORD_WINDOW) {
+      current.strength += strength;
+      this.state = { ...this.state, lastOnsetTime: current.time };
+    } else {
+      this.onsets.push({ time, strength });
+      this.state = { ...this.state, lastOnsetTime: time };
+    }
+
+    this.onsets = this.onsets.filter(
+      (onset) => time - onset.time <= HISTORY_WINDOW
+    );
+
+    this.estimate();
+    this.notify();
+  }
+
+  /**
+   * Current estimate
+   */
+  public getState(): TempoState {
+    return { ...this.state };
+  }
+
+  /**
+   * Subscribe to tempo changes; returns an unsubscribe function
+   */
+  public subscribe(listener: TempoListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getState());
+
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Forget all onsets
+   */
+  public reset(): void {
+    this.onsets = [];
+    this.state = { ...INITIAL_STATE };
+    this.notify();
+  }
+
+  private estimate(): void {
+    if (this.onsets.length < MIN_ONSETS) {
+      this.state = {
+        ...INITIAL_STATE,
+        lastOnsetTime: this.state.lastOnsetTime,
+      };
+      return;
+    }
+
+    const bpm = this.estimateBpm();
+    if (bpm === null) return;
+
+    // Small drifts are smoothed, larger changes are followed at once
+    const previous = this.state.bpm;
+    const smoothed =
+      previous !== null && Math.abs(bpm - previous) / previous < 0.08
+        ? previous * 0.7 + bpm * 0.3
+        : bpm;
+    const period = 60000 / smoothed;
+
+    const beatTime = this.estimateBeatTime(period);
+    const confidence = this.measureGridFit(period, beatTime);
+    const meter = this.estimateMeter(period, beatTime);
+
+    this.state = {
+      bpm: Math.round(smoothed * 10) / 10,
+      period,
+      confidence,
+      beatTime: meter ? meter.downbeatTime : beatTime,
+      beatsPerBar: meter ? meter.beatsPerBar : null,
+      meterConfidence: meter ? meter.confidence : 0,
+      lastOnsetTime: this.state.lastOnsetTime,
+    };
+  }
+
+  // Every interval votes for the tempos at which it spans a whole number
+  // of beats; fewer beats and tempos near the preferred one count for more
+  private estimateBpm(): number | null {
+    const histogram = new Array(MAX_BPM - MIN_BPM + 1).fill(0);
+
+    for (let i = 0; i < this.onsets.length; i++) {
+      for (let j = i + 1; j < this.onsets.length; j++) {
+        const interval = this.onsets[j].time - this.onsets[i].time;
+        if (interval > MAX_INTERVAL) break;
+
+        const weight = Math.sqrt(
+          this.onsets[i].strength * this.onsets[j].strength
+        );
+
+        for (let beats = 1; beats <= MAX_BEAT_MULTIPLE; beats++) {
+          const bpm = (60000 * beats) / interval;
+          if (bpm < MIN_BPM || bpm > MAX_BPM) continue;
+
+          this.addVote(histogram, bpm, weight / beats);
+        }
+      }
+    }
+
+    let best = -1;
+    let bestScore = 0;
+    histogram.forEach((score, index) => {
+      const bpm = MIN_BPM + index;
+      const preference = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+      if (score * preference > bestScore) {
+        best = index;
+        bestScore = score * preference;
+      }
+    });
+
+    if (best === -1) return null;
+
+    // Refine between whole BPM with a parabola through the peak
+    const before = histogram[best - 1] ?? 0;
+    const peak = histogram[best];
+    const after = histogram[best + 1] ?? 0;
+    const curvature = before - 2 * peak + after;
+    const offset = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+
+    return MIN_BPM + best + offset;
+  }
+
+  // Spread a vote over nearby tempos, as played timing is never exact
+  private addVote(histogram: number[], bpm: number, weight: number): void {
+    const spread = bpm * TIMING_TOLERANCE;
+    const from = Math.max(MIN_BPM, Math.floor(bpm - 3 * spread));
+    const to = Math.min(MAX_BPM, Math.ceil(bpm + 3 * spread));
+
+    for (let candidate = from; candidate <= to; candidate++) {
+      const distance = (candidate - bpm) / spread;
+      histogram[candidate - MIN_BPM] +=
+        weight * Math.exp(-0.5 * distance * distance);
+    }
+  }
+
+  // Beat phase as the circular mean of the onsets, recent and strong ones
+  // counting most; returns the time of the beat nearest the last onset
+  private estimateBeatTime(period: number): number {
+    const last = this.onsets[this.onsets.length - 1].time;
+    let x = 0;
+    let y = 0;
+
+    this.onsets.forEach(({ time, strength }) => {
+      const weight = strength * Math.exp(-(last - time) / (HISTORY_WINDOW / 2));
+      const angle = (2 * Math.PI * (time - last)) / period;
+      x += weight * Math.cos(angle);
+      y += weight * Math.sin(angle);
+    });
+
+    const offset = (Math.atan2(y, x) / (2 * Math.PI)) * period;
+    return last + offset;
+  }
+
+  // Share of onsets on a beat or halfway between beats
+  private measureGridFit(period: number, beatTime: number): number {
+    const onGrid = this.onsets.filter(({ time }) => {
+      const halfBeats = ((time - beatTime) / period) * 2;
+      return Math.abs(halfBeats - Math.round(halfBeats)) < GRID_TOLERANCE * 2;
+    });
+
+    return onGrid.length / this.onsets.length;
+  }
+
+  // The bar length and downbeat whose downbeats are most accented
+  private estimateMeter(
+    period: number,
+    beatTime: number
+  ): { beatsPerBar: number; downbeatTime: number; confidence: number } | null {
+    // Accent on each beat, counting beats from the reference beat (0) back
+    const accents = new Map<number, number>();
+    this.onsets.forEach(({ time, strength }) => {
+      const beats = (time - beatTime) / period;
+      const beat = Math.round(beats);
+      if (Math.abs(beats - beat) < GRID_TOLERANCE) {
+        accents.set(beat, (accents.get(beat) ?? 0) + strength);
+      }
+    });
+
+    const beats = [...accents.keys()];
+    const first = Math.min(...beats);
+    const last = Math.max(...beats);
+
+    const fits: MeterFit[] = [];
+    METERS.forEach((beatsPerBar) => {
+      // Two full bars are needed to hear a meter
+      if (last - first + 1 < beatsPerBar * 2) return;
+
+      for (let offset = 0; offset < beatsPerBar; offset++) {
+        fits.push(
+          this.measureMeterFit(accents, first, last, beatsPerBar, offset)
+        );
+      }
+    });
+
+    // Earlier meters win ties
+    let best = fits.reduce<MeterFit | null>(
+      (winner, fit) =>
+        !winner || fit.contrast > winner.contrast ? fit : winner,
+      null
+    );
+    if (!best || best.contrast <= 0) return null;
+
+    // Strong and medium beats alternating in twos are heard as 4/4 when
+    // every other strong beat stands out
+    if (best.beatsPerBar === 2) {
+      const twoBar = fits
+        .filter(
+          (fit) =>
+            fit.beatsPerBar === 4 &&
+            this.mod(fit.offset - best!.offset, 2) === 0 &&
+            fit.dominance > METER_DOMINANCE
+        )
+        .sort((a, b) => b.dominance - a.dominance)[0];
+      if (twoBar) best = { ...twoBar, contrast: best.contrast };
+    }
+
+    const { beatsPerBar, offset, contrast } = best;
+
+    // Latest downbeat at or before the reference beat
+    const downbeat = -this.mod(-offset, beatsPerBar);
+
+    return {
+      beatsPerBar,
+      downbeatTime: beatTime + downbeat * period,
+      confidence: Math.min(1, contrast),
+    };
+  }
+
+  // How much the downbeats of a meter stand out; beats without an onset
+  // count as unaccented
+  private measureMeterFit(
+    accents: Map<number, number>,
+    first: number,
+    last: number,
+    beatsPerBar: number,
+    offset: number
+  ): MeterFit {
+    const totals = new Array(beatsPerBar).fill(0);
+    const counts = new Array(beatsPerBar).fill(0);
+
+    for (let beat = first; beat <= last; beat++) {
+      const position = this.mod(beat - offset, beatsPerBar);
+      totals[position] += accents.get(beat) ?? 0;
+      counts[position]++;
+    }
+
+    const [downbeat, ...others] = totals.map((total, i) => total / counts[i]);
+    const otherMean =
+      others.reduce((sum, mean) => sum + mean, 0) / others.length;
+    const strongest = Math.max(...others);
+
+    return {
+      beatsPerBar,
+      offset,
+      contrast: (downbeat - otherMean) / Math.max(downbeat + otherMean, 1e-6),
+      dominance: (downbeat - strongest) / Math.max(downbeat + strongest, 1e-6),
+    };
+  }
+
+  private mod(value: number, divisor: number): number {
+    return ((value % divisor) + divisor) % divisor;
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error("Error in tempo listener:", error);
+      }
+    });
+  }
+}
+
+/**
+ * Where a moment falls on the beat grid of a tempo estimate; null without
+ * a tempo. Use for beat-synced effects and for quantising.
+ */
+export function getBeatPosition(
+  state: TempoState,
+  time: number = Date.now()
+): BeatPosition | null {
+  if (state.bpm === null || state.period <= 0) return null;
+
+  const beats = (time - state.beatTime) / state.period;
+  const beat = Math.floor(beats);
+  const beatsPerBar = state.beatsPerBar ?? 1;
+
+  return {
+    beat,
+    beatInBar: ((beat % beatsPerBar) + beatsPerBar) % beatsPerBar,
+    phase: beats - beat,
+  };
+}
+
+// Create a singleton instance
+let instance: TempoService | null = null;
+
+export function getTempoService(): TempoService {
+  if (!instance) {
+    instance = new TempoService();
+  }
+  return instance;
+}
@@ -0,0 +1,343 @@
+// ThemeService.ts
+
+export type PaletteId =
+  | "default"
+  | "deuteranopia"
+  | "protanopia"
+  | "high-contrast"
+  | "scriabin";
+
+export type ThemeBackground = "dark" | "light";
+
+export type NoteFunction =
+  | "tonic"
+  | "dominant"
+  | "subdominant"
+  | "mediant"
+  | "other";
+
+// Colours of the surface the visualizations draw on. Guides and the
+// foreground are "r, g, b" triples, drawn at whatever opacity each element
+// needs.
+export interface SurfaceColors {
+  background: string;
+  text: string;
+  guide: string; // Rings, grids, axes and staff lines
+  foreground: string; // Note outlines and faded labels, as the text
+}
+
+export interface Palette {
+  name: string;
+  functions: Record<NoteFunction, string>;
+  outOfKey: string;
+  // In-key notes without a main function, by scale degree; null uses "other"
+  degrees: string[] | null;
+  pitchClasses: string[]; // Hex colours, C first
+  colorByPitch: boolean; // Notes take their pitch colour, not their function's
+  accent: string; // "r, g, b" for the key and tonic
+  tension: string; // "r, g, b" for dissonance
+  highlight: string; // "r, g, b" for the held triad
+  motion: { step: string; leap: string; problem: string }; // Voice leading
+  surfaces?: Partial<Record<ThemeBackground, SurfaceColors>>;
+}
+
+export interface ThemeSettings {
+  palette: PaletteId;
+  background: ThemeBackground;
+}
+
+// The palette and surface in use
+export interface Theme {
+  settings: ThemeSettings;
+  palette: Palette;
+  surface: SurfaceColors;
+}
+
+export type ThemeListener = (theme: Theme) => void;
+
+const SURFACES: Record<ThemeBackground, SurfaceColors> = {
+  dark: {
+    background: "#1a1a1a",
+    text: "#ffffff",
+    guide: "100, 100, 100",
+    foreground: "255, 255, 255",
+  },
+  light: {
+    background: "#f5f5f0",
+    text: "#1a1a1a",
+    guide: "120, 120, 120",
+    foreground: "30, 30, 30",
+  },
+};
+
+// The colour wheel, one hue every 30 degrees from C
+const PITCH_WHEEL = [
+  "#EB4747",
+  "#EB9947",
+  "#EBEB47",
+  "#99EB47",
+  "#47EB47",
+  "#47EB99",
+  "#47EBEB",
+  "#4799EB",
+  "#4747EB",
+  "#9947EB",
+  "#EB47EB",
+  "#EB4799",
+];
+
+const DEFAULT_FUNCTIONS: Record<NoteFunction, string> = {
+  tonic: "hsl(200, 90%, 60%)", // Blue
+  dominant: "hsl(0, 90%, 60%)", // Red
+  subdominant: "hsl(120, 70%, 60%)", // Green
+  mediant: "hsl(270, 70%, 60%)", // Purple
+  other: "hsl(0, 0%, 60%)", // Gray
+};
+
+// Colour-blind-safe palettes are built from the Okabe-Ito colours, keeping
+// the dominant and subdominant apart in lightness as well as hue
+export const PALETTES: Record<PaletteId, Palette> = {
+  default: {
+    name: "Default",
+    functions: DEFAULT_FUNCTIONS,
+    outOfKey: "hsl(0, 0%, 50%)",
+    degrees: Array.from(
+      { length: 7 },
+      (_, index) => `hsl(${index * 30}, 60%, 60%)`
+    ),
+    pitchClasses: PITCH_WHEEL,
+    colorByPitch: false,
+    accent: "100, 200, 255",
+    tension: "255, 90, 60",
+    highlight: "255, 200, 80",
+    motion: {
+      step: "hsl(120, 70%, 60%)",
+      leap: "hsl(35, 90%, 60%)",
+      problem: "hsl(0, 90%, 60%)",
+    },
+  },
+  deuteranopia: {
+    name: "Deuteranopia-safe",
+    functions: {
+      tonic: "#56B4E9", // Sky blue
+      dominant: "#D55E00", // Vermillion
+      subdominant: "#F0E442", // Yellow
+      mediant: "#CC79A7", // Reddish purple
+      other: "#999999",
+    },
+    outOfKey: "#666666",
+    degrees: null,
+    pitchClasses: PITCH_WHEEL,
+    colorByPitch: false,
+    accent: "86, 180, 233",
+    tension: "213, 94, 0",
+    highlight: "240, 228, 66",
+    motion: { step: "#56B4E9", leap: "#F0E442", problem: "#D55E00" },
+  },
+  protanopia: {
+    name: "Protanopia-safe",
+    functions: {
+      tonic: "#56B4E9", // Sky blue
+      dominant: "#F0E442", // Yellow
+      subdominant: "#009E73", // Bluish green
+      mediant: "#CC79A7", // Reddish purple
+      other: "#999999",
+    },
+    outOfKey: "#666666",
+    degrees: null,
+    pitchClasses: PITCH_WHEEL,
+    colorByPitch: false,
+    accent: "86, 180, 233",
+    tension: "230, 159, 0",
+    highlight: "240, 228, 66",
+    motion: { step: "#56B4E9", leap: "#E69F00", problem: "#F0E442" },
+  },
+  "high-contrast": {
+    name: "High contrast",
+    functions: {
+      tonic: "#00B4FF",
+      dominant: "#FF3030",
+      subdominant: "#FFD700",
+      mediant: "#FF40FF",
+      other: "#C0C0C0",
+    },
+    outOfKey: "#808080",
+    degrees: null,
+    pitchClasses: PITCH_WHEEL,
+    colorByPitch: false,
+    accent: "0, 180, 255",
+    tension: "255, 48, 48",
+    highlight: "255, 215, 0",
+    motion: { step: "#00B4FF", leap: "#FFD700", problem: "#FF3030" },
+    // Pure black or white with solid guides, for washed-out projectors
+    surfaces: {
+      dark: {
+        background: "#000000",
+        text: "#ffffff",
+        guide: "200, 200, 200",
+        foreground: "255, 255, 255",
+      },
+      light: {
+        background: "#ffffff",
+        text: "#000000",
+        guide: "40, 40, 40",
+        foreground: "0, 0, 0",
+      },
+    },
+  },
+  // Scriabin's colours for the keys, as in his "keyboard of light"
+  scriabin: {
+    name: "Scriabin",
+    functions: DEFAULT_FUNCTIONS,
+    outOfKey: "hsl(0, 0%, 50%)",
+    degrees: null,
+    pitchClasses: [
+      "#FF0000", // C red
+      "#8F00FF", // C# violet
+      "#FFFF00", // D yellow
+      "#B7468B", // Eb flesh
+      "#C3F2FF", // E sky blue
+      "#AB0034", // F deep red
+      "#7F8BFD", // F# bright blue
+      "#FF7F00", // G orange
+      "#BB75FC", // Ab purple
+      "#33CC33", // A green
+      "#A9677C", // Bb steel
+      "#8EC9FF", // B pearly blue
+    ],
+    colorByPitch: true,
+    accent: "100, 200, 255",
+    tension: "255, 90, 60",
+    highlight: "255, 200, 80",
+    motion: {
+      step: "hsl(120, 70%, 60%)",
+      leap: "hsl(35, 90%, 60%)",
+      problem: "hsl(0, 90%, 60%)",
+    },
+  },
+};
+
+const DEFAULT_SETTINGS: ThemeSettings = {
+  palette: "default",
+  background: "dark",
+};
+
+const STORAGE_KEY = "themeSettings";
+
+/**
+ * Colours used by the visualizations; the chosen palette and background
+ * are kept in localStorage between sessions.
+ */
+export class ThemeService {
+  private settings: ThemeSettings;
+  private listeners: ThemeListener[] = [];
+
+  constructor() {
+    this.settings = this.loadSettings();
+  }
+
+  public getSettings(): ThemeSettings {
+    return { ...this.settings };
+  }
+
+  public update(settings: Partial<ThemeSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.saveSettings();
+    this.notify();
+  }
+
+  public getTheme(): Theme {
+    const { palette: id, background } = this.settings;
+    const palette = PALETTES[id] ?? PALETTES.default;
+
+    return {
+      settings: this.getSettings(),
+      palette,
+      surface: palette.surfaces?.[background] ?? SURFACES[background],
+    };
+  }
+
+  /**
+   * Subscribe to theme changes; returns an unsubscribe function
+   */
+  public subscribe(listener: ThemeListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getTheme());
+
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private loadSettings(): ThemeSettings {
+    try {
+      const json = localStorage.getItem(STORAGE_KEY);
+      if (json) {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(json) };
+      }
+    } catch (error) {
+      console.error("Error loading theme settings:", error);
+    }
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  private saveSettings(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error("Error saving theme settings:", error);
+    }
+  }
+
+  private notify(): void {
+    const theme = this.getTheme();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(theme);
+      } catch (error) {
+        console.error("Error in theme listener:", error);
+      }
+    });
+  }
+}
+
+/**
+ * A colour at the given opacity, from an "r, g, b" triple
+ */
+export function withAlpha(rgb: string, alpha: number): string {
+  return `rgba(${rgb}, ${alpha})`;
+}
+
+/**
+ * An "r, g, b" triple part of the way from one to another, 0 to 1
+ */
+export function mixRgb(from: string, to: string, amount: number): string {
+  const a = from.split(",").map(Number);
+  const b = to.split(",").map(Number);
+  return a
+    .map((value, index) => Math.round(value + (b[index] - value) * amount))
+    .join(", ");
+}
+
+/**
+ * Lighten (amount above 0) or darken (below 0) a hex colour, -1 to 1
+ */
+export function shadeColor(hex: string, amount: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  const target = amount > 0 ? 255 : 0;
+  const channels = [16, 8, 0].map((shift) => {
+    const channel = (value >> shift) & 255;
+    return Math.round(channel + (target - channel) * Math.abs(amount));
+  });
+  return `rgb(${channels.join(", ")})`;
+}
+
+// Create a singleton instance
+let instance: ThemeService | null = null;
+
+export function getThemeService(): ThemeService {
+  if (!instance) {
+    instance = new ThemeService();
+  }
+  return instance;
+}
@@ -0,0 +1,295 @@
+// TranscriptionService.ts
+import { Note } from "@tonaljs/tonal";
+import type {
+  NoteType,
+  Score,
+  ScoreMeasure,
+  ScoreNote,
+  ScorePitch,
+} from "./MusicXmlService";
+import { NoteSpellingService, getKeySignature } from "./NoteSpellingService";
+import type { TempoState } from "./TempoService";
+
+export interface TranscriptionOptions {
+  title: string;
+  splitPoint: number; // Lowest MIDI note of the right hand
+  subdivision: number; // Grid steps per beat (2 is eighths, 4 sixteenths)
+  keyName: string | null;
+  tempo: TempoState;
+}
+
+// A played note, times in ms
+interface CapturedNote {
+  midiNumber: number;
+  start: number;
+  end: number | null; // null while held
+}
+
+// A note or chord on the grid, in steps from the first downbeat
+interface GridEvent {
+  start: number;
+  end: number;
+  midiNumbers: number[]; // Empty for a rest
+}
+
+const DEFAULT_OPTIONS: Omit<TranscriptionOptions, "tempo"> = {
+  title: "Transcription",
+  splitPoint: 60,
+  subdivision: 4,
+  keyName: null,
+};
+
+// Used when no tempo has been detected
+const DEFAULT_BPM = 120;
+const DEFAULT_BEATS_PER_BAR = 4;
+
+// Written values in quarter notes, longest first (dotted values included)
+const NOTE_VALUES: { type: NoteType; dots: number; quarters: number }[] = [
+  { type: "whole", dots: 0, quarters: 4 },
+  { type: "half", dots: 1, quarters: 3 },
+  { type: "half", dots: 0, quarters: 2 },
+  { type: "quarter", dots: 1, quarters: 1.5 },
+  { type: "quarter", dots: 0, quarters: 1 },
+  { type: "eighth", dots: 1, quarters: 0.75 },
+  { type: "eighth", dots: 0, quarters: 0.5 },
+  { type: "16th", dots: 1, quarters: 0.375 },
+  { type: "16th", dots: 0, quarters: 0.25 },
+  { type: "32nd", dots: 0, quarters: 0.125 },
+];
+
+/**
+ * Captures played notes and writes them out as a piano score: onsets and
+ * releases are snapped to a grid of the detected tempo, the grid is cut into
+ * measures of the detected meter, notes are split between the hands at a
+ * split point and pitches are spelled in the detected key.
+ *
+ * Each hand is written as a single voice, so overlapping notes in one hand
+ * are shortened to end where the next one starts.
+ */
+export class TranscriptionService {
+  private notes: CapturedNote[] = [];
+  private capturing: boolean = false;
+
+  /**
+   * Start a new transcription, discarding the previous one
+   */
+  public start(): void {
+    this.notes = [];
+    this.capturing = true;
+  }
+
+  /**
+   * Stop capturing; held notes end now
+   */
+  public stop(time: number = Date.now()): void {
+    this.notes.forEach((note) => {
+      if (note.end === null) note.end = time;
+    });
+    this.capturing = false;
+  }
+
+  public get isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  public noteOn(midiNumber: number, time: number = Date.now()): void {
+    if (!this.capturing) return;
+    this.notes.push({ midiNumber, start: time, end: null });
+  }
+
+  public noteOff(midiNumber: number, time: number = Date.now()): void {
+    if (!this.capturing) return;
+
+    const note = [...this.notes]
+      .reverse()
+      .find((n) => n.midiNumber === midiNumber && n.end === null);
+    if (note) note.end = time;
+  }
+
+  public getNoteCount(): number {
+    return this.notes.length;
+  }
+
+  /**
+   * Quantise the captured notes into a score
+   */
+  public transcribe(
+    options: Partial<TranscriptionOptions> & { tempo: TempoState }
+  ): Score {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const { subdivision } = settings;
+    const beatsPerBar = settings.tempo.beatsPerBar ?? DEFAULT_BEATS_PER_BAR;
+    const barSteps = beatsPerBar * subdivision;
+
+    const hands = this.quantise(settings, barSteps);
+    const lastStep = Math.max(
+      0,
+      ...hands.flatMap((events) => events.map((event) => event.end))
+    );
+    const measureCount = Math.max(1, Math.ceil(lastStep / barSteps));
+
+    const spelling = new NoteSpellingService(settings.keyName);
+    const measures: ScoreMeasure[] = Array.from(
+      { length: measureCount },
+      () => ({ staves: [[], []] })
+    );
+
+    hands.forEach((events, staff) => {
+      const filled = this.fillRests(events, measureCount * barSteps);
+      filled.forEach((event) =>
+        this.writeEvent(event, staff, measures, barSteps, subdivision, spelling)
+      );
+    });
+
+    // A measure with nothing in a hand gets a whole-measure rest
+    measures.forEach((measure) => {
+      measure.staves = measure.staves.map((notes) =>
+        notes.length === 1 && notes[0].pitches.length === 0
+          ? [{ ...notes[0], type: null, dots: 0 }]
+          : notes
+      );
+    });
+
+    return {
+      title: settings.title,
+      divisions: subdivision,
+      beatsPerBar,
+      beatType: 4,
+      ...getKeySignature(settings.keyName),
+      bpm: settings.tempo.bpm ?? DEFAULT_BPM,
+      measures,
+    };
+  }
+
+  // Snap notes to the grid, from the downbeat before the first note, and
+  // turn each hand into a single line of notes and chords
+  private quantise(
+    settings: TranscriptionOptions,
+    barSteps: number
+  ): GridEvent[][] {
+    const notes = this.notes.filter((note) => note.end !== null);
+    if (notes.length === 0) return [[], []];
+
+    const firstStart = Math.min(...notes.map((note) => note.start));
+    const { tempo, subdivision } = settings;
+    const period = tempo.bpm !== null ? tempo.period : 60000 / DEFAULT_BPM;
+    const gridOrigin = tempo.bpm !== null ? tempo.beatTime : firstStart;
+    const stepLength = period / subdivision;
+
+    const toStep = (time: number) =>
+      Math.round((time - gridOrigin) / stepLength);
+    const firstBar = Math.floor(toStep(firstStart) / barSteps) * barSteps;
+
+    const hands: Map<number, number[]>[] = [new Map(), new Map()];
+    const ends: Map<number, number>[] = [new Map(), new Map()];
+
+    notes.forEach((note) => {
+      const start = toStep(note.start) - firstBar;
+      const end = Math.max(start + 1, toStep(note.end!) - firstBar);
+      const hand = note.midiNumber >= settings.splitPoint ? 0 : 1;
+
+      const chord = hands[hand].get(start) ?? [];
+      if (!chord.includes(note.midiNumber)) chord.push(note.midiNumber);
+      hands[hand].set(start, chord);
+      ends[hand].set(start, Math.max(ends[hand].get(start) ?? 0, end));
+    });
+
+    return hands.map((chords, hand) => {
+      const starts = [...chords.keys()].sort((a, b) => a - b);
+      return starts.map((start, index) => ({
+        start,
+        end: Math.min(ends[hand].get(start)!, starts[index + 1] ?? Infinity),
+        midiNumbers: chords.get(start)!.sort((a, b) => a - b),
+      }));
+    });
+  }
+
+  // Rests between the notes of a hand and up to the end of the last measure
+  private fillRests(events: GridEvent[], totalSteps: number): GridEvent[] {
+    const filled: GridEvent[] = [];
+    let position = 0;
+
+    events.forEach((event) => {
+      if (event.start > position) {
+        filled.push({ start: position, end: event.start, midiNumbers: [] });
+      }
+      filled.push(event);
+      position = event.end;
+    });
+
+    if (position < totalSteps) {
+      filled.push({ start: position, end: totalSteps, midiNumbers: [] });
+    }
+
+    return filled;
+  }
+
+  // Split an event at barlines and into written values, tying the pieces
+  private writeEvent(
+    event: GridEvent,
+    staff: number,
+    measures: ScoreMeasure[],
+    barSteps: number,
+    subdivision: number,
+    spelling: NoteSpellingService
+  ): void {
+    const pitches = event.midiNumbers.map((midi) =>
+      this.toPitch(spelling.spellMidi(midi))
+    );
+    const isRest = pitches.length === 0;
+    const pieces: { measure: number; note: ScoreNote }[] = [];
+
+    let position = event.start;
+    while (position < event.end) {
+      const measure = Math.floor(position / barSteps);
+      const barEnd = (measure + 1) * barSteps;
+      let remaining = Math.min(event.end, barEnd) - position;
+
+      while (remaining > 0) {
+        const value = this.getLongestValue(remaining, subdivision);
+        pieces.push({
+          measure,
+          note: {
+            pitches,
+            duration: value.steps,
+            type: value.type,
+            dots: value.dots,
+            tieStart: false,
+            tieStop: false,
+          },
+        });
+        remaining -= value.steps;
+        position += value.steps;
+      }
+    }
+
+    pieces.forEach(({ measure, note }, index) => {
+      if (!isRest) {
+        note.tieStop = index > 0;
+        note.tieStart = index < pieces.length - 1;
+      }
+      measures[measure].staves[staff].push(note);
+    });
+  }
+
+  // Longest written value that fits, in grid steps
+  private getLongestValue(
+    steps: number,
+    subdivision: number
+  ): { type: NoteType; dots: number; steps: number } {
+    for (const value of NOTE_VALUES) {
+      const valueSteps = value.quarters * subdivision;
+      if (Number.isInteger(valueSteps) && valueSteps <= steps) {
+        return { type: value.type, dots: value.dots, steps: valueSteps };
+      }
+    }
+
+    // The grid step itself, for grids finer than any written value
+    return { type: "32nd", dots: 0, steps: 1 };
+  }
+
+  private toPitch(noteName: string): ScorePitch {
+    const { letter, alt, oct } = Note.get(noteName);
+    return { step: letter, alter: alt, octave: oct ?? 4 };
+  }
+}
@@ -0,0 +1,278 @@
+// TuningService.ts
+import type { ScalaKeyboardMap, ScalaScale } from "./ScalaFileService";
+
+export type TuningSystem =
+  | "equal"
+  | "meantone"
+  | "werckmeister3"
+  | "vallotti"
+  | "just"
+  | "scala";
+
+export interface TuningSettings {
+  system: TuningSystem;
+  referencePitch: number; // Frequency of A4 in Hz
+  scale: ScalaScale | null;
+  keyboardMap: ScalaKeyboardMap | null;
+}
+
+export type TuningListener = (settings: TuningSettings) => void;
+
+export const TUNING_NAMES: Record<TuningSystem, string> = {
+  equal: "Equal temperament",
+  meantone: "Quarter-comma meantone",
+  werckmeister3: "Werckmeister III",
+  vallotti: "Vallotti",
+  just: "Just intonation (key)",
+  scala: "Scala file",
+};
+
+// Cents above C for each pitch class of the historical temperaments
+const TEMPERAMENTS: Partial<Record<TuningSystem, number[]>> = {
+  meantone: [
+    0, 76.05, 193.16, 310.26, 386.31, 503.42, 579.47, 696.58, 772.63, 889.74,
+    1006.84, 1082.89,
+  ],
+  werckmeister3: [
+    0, 90.22, 192.18, 294.13, 390.22, 498.04, 588.27, 696.09, 792.18, 888.27,
+    996.09, 1092.18,
+  ],
+  vallotti: [
+    0, 94.13, 196.09, 298.04, 392.18, 501.96, 592.18, 698.04, 796.09, 894.13,
+    998.04, 1090.22,
+  ],
+};
+
+// Five-limit ratios above the tonic
+const JUST_RATIOS = [
+  1,
+  16 / 15,
+  9 / 8,
+  6 / 5,
+  5 / 4,
+  4 / 3,
+  45 / 32,
+  3 / 2,
+  8 / 5,
+  5 / 3,
+  9 / 5,
+  15 / 8,
+];
+
+const DEFAULT_SETTINGS: TuningSettings = {
+  system: "equal",
+  referencePitch: 440,
+  scale: null,
+  keyboardMap: null,
+};
+
+// Scala's own default keyboard mapping: degree 0 on middle C
+const DEFAULT_MIDDLE_NOTE = 60;
+
+const STORAGE_KEY = "tuningSettings";
+
+/**
+ * Turns MIDI notes into frequencies for the selected tuning.
+ *
+ * Historical temperaments are laid out from C and then shifted so that A4
+ * sounds at the reference pitch. Just intonation is tuned from the tonic of
+ * the detected key, which itself keeps its equal-tempered pitch. Scala
+ * scales use their keyboard mapping when one is loaded, otherwise degree 0
+ * sits on middle C and the reference pitch tunes A4.
+ *
+ * Settings are saved to localStorage as soon as they change.
+ */
+export class TuningService {
+  private settings: TuningSettings;
+  private tonic: number | null = null; // Pitch class of the detected key
+  private listeners: TuningListener[] = [];
+
+  constructor() {
+    this.settings = this.loadSettings();
+  }
+
+  public getSettings(): TuningSettings {
+    return { ...this.settings };
+  }
+
+  public update(settings: Partial<TuningSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.saveSettings();
+    this.notify();
+  }
+
+  /**
+   * Set the tonic that just intonation is tuned from (pitch class, 0 is C)
+   */
+  public setTonic(tonic: number | null): void {
+    if (tonic === this.tonic) return;
+
+    this.tonic = tonic;
+    if (this.settings.system === "just") {
+      this.notify();
+    }
+  }
+
+  public getTonic(): number | null {
+    return this.tonic;
+  }
+
+  /**
+   * Frequency of a MIDI note in Hz
+   */
+  public getFrequency(note: number): number {
+    const { system, referencePitch } = this.settings;
+
+    if (system === "scala") {
+      const frequency = this.getScalaFrequency(note);
+      if (frequency !== null) return frequency;
+    }
+
+    const equal = referencePitch * Math.pow(2, (note - 69) / 12);
+    return equal * Math.pow(2, this.getOffset(note % 12) / 1200);
+  }
+
+  /**
+   * Deviation from equal temperament at the reference pitch, in cents
+   */
+  public getCentsDeviation(note: number): number {
+    const equal =
+      this.settings.referencePitch * Math.pow(2, (note - 69) / 12);
+    return 1200 * Math.log2(this.getFrequency(note) / equal);
+  }
+
+  /**
+   * Subscribe to tuning changes; returns an unsubscribe function
+   */
+  public subscribe(listener: TuningListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getSettings());
+
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Cents away from equal temperament for a pitch class, keeping A in tune
+  // for temperaments and the tonic in tune for just intonation
+  private getOffset(pitchClass: number): number {
+    const { system } = this.settings;
+
+    const temperament = TEMPERAMENTS[system];
+    if (temperament) {
+      const offsetFromC = temperament[pitchClass] - pitchClass * 100;
+      return offsetFromC - (temperament[9] - 900);
+    }
+
+    if (system === "just" && this.tonic !== null) {
+      const interval = (pitchClass - this.tonic + 12) % 12;
+      return 1200 * Math.log2(JUST_RATIOS[interval]) - interval * 100;
+    }
+
+    return 0;
+  }
+
+  // null for keys the keyboard mapping leaves silent, which then fall back
+  // to equal temperament
+  private getScalaFrequency(note: number): number | null {
+    const { scale } = this.settings;
+    if (!scale || scale.cents.length === 0) return null;
+
+    const map = this.settings.keyboardMap;
+    const cents = this.getScalaCents(note);
+    if (cents === null) return null;
+
+    if (map) {
+      const referenceCents = this.getScalaCents(map.referenceNote);
+      if (referenceCents === null) return null;
+      return (
+        map.referenceFrequency *
+        Math.pow(2, (cents - referenceCents) / 1200)
+      );
+    }
+
+    const referenceCents = this.getScalaCents(69);
+    if (referenceCents === null) return null;
+    return (
+      this.settings.referencePitch *
+      Math.pow(2, (cents - referenceCents) / 1200)
+    );
+  }
+
+  // Cents of a key above the middle note
+  private getScalaCents(note: number): number | null {
+    const scale = this.settings.scale!;
+    const map = this.settings.keyboardMap;
+
+    if (!map || map.size === 0) {
+      const middle = map ? map.middleNote : DEFAULT_MIDDLE_NOTE;
+      return this.getDegreeCents(note - middle);
+    }
+
+    if (note < map.firstNote || note > map.lastNote) return null;
+
+    const steps = note - map.middleNote;
+    const repeats = Math.floor(steps / map.size);
+    const degree = map.mapping[((steps % map.size) + map.size) % map.size];
+    if (degree === null || degree === undefined) return null;
+
+    const octaveCents =
+      map.octaveDegree > 0
+        ? this.getDegreeCents(map.octaveDegree)
+        : scale.cents[scale.cents.length - 1];
+
+    return repeats * octaveCents + this.getDegreeCents(degree);
+  }
+
+  // Cents of any scale degree, counting on past the period
+  private getDegreeCents(degree: number): number {
+    const { cents } = this.settings.scale!;
+    const count = cents.length;
+    const period = cents[count - 1];
+    const repeats = Math.floor(degree / count);
+    const step = ((degree % count) + count) % count;
+
+    return repeats * period + (step === 0 ? 0 : cents[step - 1]);
+  }
+
+  private loadSettings(): TuningSettings {
+    try {
+      const json = localStorage.getItem(STORAGE_KEY);
+      if (json) {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(json) };
+      }
+    } catch (error) {
+      console.error("Error loading tuning settings:", error);
+    }
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  private saveSettings(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error("Error saving tuning settings:", error);
+    }
+  }
+
+  private notify(): void {
+    const settings = this.getSettings();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(settings);
+      } catch (error) {
+        console.error("Error in tuning listener:", error);
+      }
+    });
+  }
+}
+
+// Create a singleton instance
+let instance: TuningService | null = null;
+
+export function getTuningService(): TuningService {
+  if (!instance) {
+    instance = new TuningService();
+  }
+  return instance;
+}
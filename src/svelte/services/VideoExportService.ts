@@ -0,0 +1,329 @@
+// VideoExportService.ts
+import type { RecordedMidiEvent } from "./MidiFileService";
+import {
+  MusicTheoryService,
+  type ChordInfo,
+  type IntervalInfo,
+  type KeySignatureInfo,
+  type NoteData,
+} from "./MusicTheoryService";
+import { PedalService, PEDAL_CONTROLLERS } from "./PedalService";
+import type { VoiceLeadingAnalysis } from "./VoiceLeadingService";
+
+// What the visualizations are given at one moment of a session
+export interface SessionFrame {
+  time: number; // ms from the start of the session
+  notes: NoteData[];
+  currentKey: KeySignatureInfo | null;
+  intervals: IntervalInfo[];
+  chords: ChordInfo[];
+  voiceLeading: VoiceLeadingAnalysis | null;
+}
+
+// Draws a frame and returns the canvas holding it
+export type FrameRenderer = (
+  frame: SessionFrame
+) => Promise<HTMLCanvasElement>;
+
+export type ExportProgress = (framesDone: number, frameCount: number) => void;
+
+export interface ExportSettings {
+  width: number;
+  height: number;
+  fps: number;
+  background: string; // Visualizations draw on a transparent canvas
+}
+
+// Released notes leave the analysis after this long, as in the live view (ms)
+const NOTE_FADE = 3000;
+
+const VIDEO_BITRATE = 8_000_000;
+
+// Preferred WebM encodings, best first
+const WEBM_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+];
+
+/**
+ * Plays a recorded or imported session through its own analysis on the
+ * session clock, so it can be rendered frame by frame at any speed
+ */
+export class SessionTimeline {
+  private events: RecordedMidiEvent[];
+  private nextIndex: number = 0;
+  private musicService = new MusicTheoryService();
+  private pedals = new PedalService();
+  private activeNotes: Map<string, NoteData> = new Map();
+  private frame: SessionFrame = {
+    time: 0,
+    notes: [],
+    currentKey: null,
+    intervals: [],
+    chords: [],
+    voiceLeading: null,
+  };
+
+  constructor(events: RecordedMidiEvent[]) {
+    this.events = [...events].sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Length of the session, including the fade of the last notes
+   */
+  public getDuration(): number {
+    const last = this.events[this.events.length - 1];
+    return last ? last.time + NOTE_FADE : 0;
+  }
+
+  /**
+   * Play the session up to a time, handing each event reached to onEvent,
+   * and return what is sounding then. Time only moves forward.
+   */
+  public advanceTo(
+    time: number,
+    onEvent?: (event: RecordedMidiEvent) => void
+  ): SessionFrame {
+    while (
+      this.nextIndex < this.events.length &&
+      this.events[this.nextIndex].time <= time
+    ) {
+      const event = this.events[this.nextIndex++];
+      this.handleEvent(event);
+      onEvent?.(event);
+      this.analyse(event.time);
+    }
+
+    // Released notes drop out once they have faded
+    let notesChanged = false;
+    this.activeNotes.forEach((note, id) => {
+      if (!note.active && time - note.timestamp > NOTE_FADE) {
+        this.activeNotes.delete(id);
+        notesChanged = true;
+      }
+    });
+    if (notesChanged) {
+      this.analyse(time);
+    }
+
+    this.frame = { ...this.frame, time };
+    return this.frame;
+  }
+
+  private handleEvent(event: RecordedMidiEvent): void {
+    if (event.type === "noteon") {
+      this.startNote(event.number, event.value, event.time);
+    } else if (event.type === "noteoff") {
+      this.releaseNote(event.number, event.time);
+    } else if (PEDAL_CONTROLLERS.includes(event.number)) {
+      const released = this.pedals.handleControlChange(
+        event.number,
+        event.value
+      );
+      released.forEach((midiNumber) => {
+        const note = this.activeNotes.get(`${midiNumber}`);
+        if (note) this.fadeOutNote(note, event.time);
+      });
+    }
+  }
+
+  private startNote(midiNumber: number, velocity: number, time: number): void {
+    const noteId = `${midiNumber}`;
+    this.pedals.keyDown(midiNumber);
+
+    this.activeNotes.set(noteId, {
+      id: noteId,
+      name: this.musicService.spellNote(midiNumber),
+      midiNumber,
+      velocity: this.pedals.applySoftPedal(velocity),
+      timestamp: time,
+      inKey: true, // Set by the analysis
+      active: true,
+      sustained: false,
+    });
+  }
+
+  // The note keeps sounding while a pedal holds it
+  private releaseNote(midiNumber: number, time: number): void {
+    const shouldStop = this.pedals.keyUp(midiNumber);
+    const note = this.activeNotes.get(`${midiNumber}`);
+    if (!note) return;
+
+    if (shouldStop) {
+      this.fadeOutNote(note, time);
+    } else {
+      note.sustained = true;
+    }
+  }
+
+  private fadeOutNote(note: NoteData, time: number): void {
+    note.timestamp = time;
+    note.active = false;
+    note.sustained = false;
+  }
+
+  // The same analysis as the live view, timed on the session clock
+  private analyse(time: number): void {
+    let notes = Array.from(this.activeNotes.values());
+    this.musicService.setActiveNotes(notes, time);
+
+    const currentKey = this.musicService.detectKey(time);
+    const chords = this.musicService.detectChords();
+    const intervals = this.musicService.detectIntervals();
+
+    notes = this.musicService.processNotes(notes);
+    notes.forEach((note) => {
+      this.activeNotes.set(note.id, note);
+    });
+
+    this.musicService.trackProgression(chords, time);
+
+    this.frame = {
+      time,
+      notes,
+      currentKey,
+      intervals,
+      chords,
+      voiceLeading: this.musicService.getVoiceLeading(),
+    };
+  }
+}
+
+export class VideoExportService {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private cancelled: boolean = false;
+
+  constructor(
+    private render: FrameRenderer,
+    private settings: ExportSettings
+  ) {
+    // Frames are copied onto a canvas of the export size with a background
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = settings.width;
+    this.canvas.height = settings.height;
+    this.ctx = this.canvas.getContext("2d")!;
+  }
+
+  /**
+   * Stop after the frame being rendered
+   */
+  public cancel(): void {
+    this.cancelled = true;
+  }
+
+  public get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * Render every frame of a session as fast as it can be drawn and hand
+   * each one over as a PNG; returns the number of frames saved
+   */
+  public async exportPngSequence(
+    events: RecordedMidiEvent[],
+    save: (index: number, png: Uint8Array) => Promise<void>,
+    onProgress?: ExportProgress
+  ): Promise<number> {
+    const timeline = new SessionTimeline(events);
+    const frameCount = this.getFrameCount(timeline);
+
+    let index = 0;
+    for (; index < frameCount && !this.cancelled; index++) {
+      await this.renderFrame(timeline, index);
+      await save(index, await this.encodePng());
+      onProgress?.(index + 1, frameCount);
+    }
+    return index;
+  }
+
+  /**
+   * Record a session as a WebM video. MediaRecorder timestamps frames as
+   * they arrive, so frames are drawn on a fixed timer and the recording
+   * takes as long as the session. Events are handed to onEvent as they are
+   * reached, e.g. to play them on a synth whose output is given as audio.
+   */
+  public async recordWebm(
+    events: RecordedMidiEvent[],
+    audio: MediaStream | null,
+    onEvent?: (event: RecordedMidiEvent) => void,
+    onProgress?: ExportProgress
+  ): Promise<Uint8Array> {
+    const timeline = new SessionTimeline(events);
+    const frameCount = this.getFrameCount(timeline);
+    const frameDuration = 1000 / this.settings.fps;
+
+    // Frames are only captured when requested, one per rendered frame
+    const track = this.canvas
+      .captureStream(0)
+      .getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const stream = new MediaStream([
+      track,
+      ...(audio ? audio.getAudioTracks() : []),
+    ]);
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType: WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)),
+      videoBitsPerSecond: VIDEO_BITRATE,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    recorder.start();
+    const start = performance.now();
+
+    for (let index = 0; index < frameCount && !this.cancelled; index++) {
+      await wait(start + index * frameDuration - performance.now());
+      await this.renderFrame(timeline, index, onEvent);
+      track.requestFrame();
+      onProgress?.(index + 1, frameCount);
+    }
+
+    // The last frame is shown for its full duration
+    await wait(frameDuration);
+    recorder.stop();
+    await stopped;
+    track.stop();
+
+    const blob = new Blob(chunks, { type: "video/webm" });
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  private getFrameCount(timeline: SessionTimeline): number {
+    return Math.floor((timeline.getDuration() * this.settings.fps) / 1000) + 1;
+  }
+
+  private async renderFrame(
+    timeline: SessionTimeline,
+    index: number,
+    onEvent?: (event: RecordedMidiEvent) => void
+  ): Promise<void> {
+    const { width, height, fps, background } = this.settings;
+    const frame = timeline.advanceTo((index * 1000) / fps, onEvent);
+    const source = await this.render(frame);
+
+    this.ctx.fillStyle = background;
+    this.ctx.fillRect(0, 0, width, height);
+    this.ctx.drawImage(source, 0, 0, width, height);
+  }
+
+  private async encodePng(): Promise<Uint8Array> {
+    const blob = await new Promise<Blob | null>((resolve) =>
+      this.canvas.toBlob(resolve, "image/png")
+    );
+    if (!blob) {
+      throw new Error("Could not encode frame as PNG");
+    }
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
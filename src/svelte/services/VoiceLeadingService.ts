@@ -0,0 +1,345 @@
+// VoiceLeadingService.ts
+import { Chord, Interval, Note } from "@tonaljs/tonal";
+import type { ChordInfo } from "./MusicTheoryService";
+import { parseKeyName } from "./RomanNumeralService";
+
+export type VoiceMotionKind = "static" | "step" | "leap";
+
+// How one voice moved from the previous chord to the current one
+export interface VoiceMotion {
+  voice: number; // 0 is the bass
+  voiceName: string;
+  from: number; // MIDI note numbers
+  to: number;
+  semitones: number; // positive is up
+  kind: VoiceMotionKind;
+}
+
+export type VoiceLeadingIssueType =
+  | "parallel-fifths"
+  | "parallel-octaves"
+  | "hidden-fifths"
+  | "hidden-octaves"
+  | "voice-overlap"
+  | "unresolved-leading-tone"
+  | "unresolved-seventh";
+
+export interface VoiceLeadingIssue {
+  type: VoiceLeadingIssueType;
+  voices: number[];
+  description: string;
+}
+
+export interface VoiceLeadingAnalysis {
+  previousChord: string | null;
+  currentChord: string | null;
+  motions: VoiceMotion[];
+  issues: VoiceLeadingIssue[];
+  smooth: boolean; // No voice leaps except the bass
+}
+
+// One chord as played: MIDI notes from the bass up, with its harmony
+interface Voicing {
+  eventId: number;
+  notes: number[];
+  chordName: string | null;
+  seventh: number | null; // Pitch class of the chord seventh, if any
+  keyName: string | null;
+}
+
+const FOUR_PART_NAMES = ["Bass", "Tenor", "Alto", "Soprano"];
+
+// Largest move still counted as a step (a major second)
+const MAX_STEP = 2;
+
+/**
+ * Compares the voicings of successive chords the way a four-part harmony
+ * exercise is marked: voices are paired from the bass up and checked for
+ * parallel and hidden perfect intervals, overlap and unresolved tendency
+ * tones. Played notes carry no voice, so pairing by pitch order cannot tell
+ * crossed voices apart and crossing is not reported.
+ */
+export class VoiceLeadingService {
+  private previous: Voicing | null = null;
+  private current: Voicing | null = null;
+  private analysis: VoiceLeadingAnalysis | null = null;
+
+  /**
+   * Feed the notes of the chord event being heard (ids come from the
+   * progression history); returns true when the analysis changed
+   */
+  public update(
+    eventId: number,
+    notes: number[],
+    chord: ChordInfo | null,
+    keyName: string | null
+  ): boolean {
+    const sorted = [...new Set(notes)].sort((a, b) => a - b);
+    if (sorted.length < 2) return false;
+
+    const voicing: Voicing = {
+      eventId,
+      notes: sorted,
+      chordName: chord ? chord.name : null,
+      seventh: chord ? this.getSeventh(chord) : null,
+      keyName,
+    };
+
+    if (this.current && this.current.eventId === eventId) {
+      // Keys still going down or changing voicing within the same chord;
+      // keep the fullest voicing
+      if (sorted.length < this.current.notes.length) return false;
+      if (this.sameNotes(sorted, this.current.notes)) return false;
+      this.current = voicing;
+    } else {
+      this.previous = this.current;
+      this.current = voicing;
+    }
+
+    if (!this.previous) return false;
+
+    this.analysis = this.analyse(this.previous, this.current);
+    return true;
+  }
+
+  /**
+   * Voice leading from the previous chord into the current one
+   */
+  public getAnalysis(): VoiceLeadingAnalysis | null {
+    return this.analysis;
+  }
+
+  public reset(): void {
+    this.previous = null;
+    this.current = null;
+    this.analysis = null;
+  }
+
+  private analyse(previous: Voicing, current: Voicing): VoiceLeadingAnalysis {
+    const pairs = this.pairVoices(previous.notes, current.notes);
+    const voiceCount = pairs.length;
+
+    const motions: VoiceMotion[] = pairs.map(([from, to], voice) => {
+      const semitones = to - from;
+      return {
+        voice,
+        voiceName: this.getVoiceName(voice, voiceCount),
+        from,
+        to,
+        semitones,
+        kind: this.getMotionKind(semitones),
+      };
+    });
+
+    const issues = [
+      ...this.findParallels(motions),
+      ...this.findHiddenIntervals(motions),
+      ...this.findOverlaps(motions),
+      ...this.findUnresolvedLeadingTones(motions, current, previous.keyName),
+      ...this.findUnresolvedSevenths(motions, previous),
+    ];
+
+    return {
+      previousChord: previous.chordName,
+      currentChord: current.chordName,
+      motions,
+      issues,
+      smooth: motions.every(
+        (motion) => motion.voice === 0 || motion.kind !== "leap"
+      ),
+    };
+  }
+
+  // Pair voices from the bass up; when the number of voices changes, the
+  // outer voices stay paired and the inner ones are spread between them
+  private pairVoices(from: number[], to: number[]): [number, number][] {
+    const count = Math.min(from.length, to.length);
+    const pick = (notes: number[], index: number) =>
+      notes[Math.round((index * (notes.length - 1)) / (count - 1))];
+
+    return Array.from({ length: count }, (_, index) => [
+      pick(from, index),
+      pick(to, index),
+    ]);
+  }
+
+  // The same perfect fifth or octave in the same two voices, both moving
+  private findParallels(motions: VoiceMotion[]): VoiceLeadingIssue[] {
+    const issues: VoiceLeadingIssue[] = [];
+
+    this.forEachVoicePair(motions, (lower, upper) => {
+      if (lower.semitones === 0 || upper.semitones === 0) return;
+      if (Math.sign(lower.semitones) !== Math.sign(upper.semitones)) return;
+
+      const before = this.intervalClass(lower.from, upper.from);
+      const after = this.intervalClass(lower.to, upper.to);
+
+      if (before === 7 && after === 7) {
+        issues.push({
+          type: "parallel-fifths",
+          voices: [lower.voice, upper.voice],
+          description: `Parallel fifths between ${lower.voiceName} and ${upper.voiceName}`,
+        });
+      } else if (before === 0 && after === 0) {
+        issues.push({
+          type: "parallel-octaves",
+          voices: [lower.voice, upper.voice],
+          description: `Parallel octaves between ${lower.voiceName} and ${upper.voiceName}`,
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  // Outer voices moving the same way into a perfect interval, with the top
+  // voice leaping
+  private findHiddenIntervals(motions: VoiceMotion[]): VoiceLeadingIssue[] {
+    if (motions.length < 2) return [];
+
+    const bass = motions[0];
+    const top = motions[motions.length - 1];
+
+    if (bass.semitones === 0 || top.kind !== "leap") return [];
+    if (Math.sign(bass.semitones) !== Math.sign(top.semitones)) return [];
+
+    const before = this.intervalClass(bass.from, top.from);
+    const after = this.intervalClass(bass.to, top.to);
+
+    // Moving from one perfect interval to the same one is a parallel instead
+    if (after === before) return [];
+
+    if (after === 7) {
+      return [
+        {
+          type: "hidden-fifths",
+          voices: [bass.voice, top.voice],
+          description: `Hidden fifths between ${bass.voiceName} and ${top.voiceName}`,
+        },
+      ];
+    }
+    if (after === 0) {
+      return [
+        {
+          type: "hidden-octaves",
+          voices: [bass.voice, top.voice],
+          description: `Hidden octaves between ${bass.voiceName} and ${top.voiceName}`,
+        },
+      ];
+    }
+    return [];
+  }
+
+  // A voice moving past where the neighbouring voice just was
+  private findOverlaps(motions: VoiceMotion[]): VoiceLeadingIssue[] {
+    const issues: VoiceLeadingIssue[] = [];
+
+    for (let i = 0; i < motions.length - 1; i++) {
+      const lower = motions[i];
+      const upper = motions[i + 1];
+
+      if (lower.to > upper.from || upper.to < lower.from) {
+        issues.push({
+          type: "voice-overlap",
+          voices: [lower.voice, upper.voice],
+          description: `${lower.voiceName} and ${upper.voiceName} overlap`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  // The leading tone in an outer voice should rise to the tonic when the
+  // next chord contains the tonic
+  private findUnresolvedLeadingTones(
+    motions: VoiceMotion[],
+    current: Voicing,
+    keyName: string | null
+  ): VoiceLeadingIssue[] {
+    if (!keyName || current.keyName !== keyName) return [];
+
+    const tonic = Note.chroma(parseKeyName(keyName).tonic);
+    if (tonic === undefined) return [];
+
+    const leadingTone = (tonic + 11) % 12;
+    const hasTonic = current.notes.some((note) => note % 12 === tonic);
+    if (!hasTonic) return [];
+
+    const outerVoices = [motions[0], motions[motions.length - 1]];
+    return outerVoices
+      .filter(
+        (motion) => motion.from % 12 === leadingTone && motion.semitones !== 1
+      )
+      .map((motion) => ({
+        type: "unresolved-leading-tone" as const,
+        voices: [motion.voice],
+        description: `Leading tone in the ${motion.voiceName} does not rise to the tonic`,
+      }));
+  }
+
+  // The seventh of a chord should fall by step
+  private findUnresolvedSevenths(
+    motions: VoiceMotion[],
+    previous: Voicing
+  ): VoiceLeadingIssue[] {
+    if (previous.seventh === null) return [];
+
+    return motions
+      .filter(
+        (motion) =>
+          motion.from % 12 === previous.seventh &&
+          !(motion.semitones < 0 && motion.semitones >= -MAX_STEP)
+      )
+      .map((motion) => ({
+        type: "unresolved-seventh" as const,
+        voices: [motion.voice],
+        description: `Seventh in the ${motion.voiceName} does not fall by step`,
+      }));
+  }
+
+  private forEachVoicePair(
+    motions: VoiceMotion[],
+    callback: (lower: VoiceMotion, upper: VoiceMotion) => void
+  ): void {
+    for (let i = 0; i < motions.length; i++) {
+      for (let j = i + 1; j < motions.length; j++) {
+        callback(motions[i], motions[j]);
+      }
+    }
+  }
+
+  private getMotionKind(semitones: number): VoiceMotionKind {
+    const distance = Math.abs(semitones);
+    if (distance === 0) return "static";
+    return distance <= MAX_STEP ? "step" : "leap";
+  }
+
+  // Interval between two notes reduced to within an octave
+  private intervalClass(lower: number, upper: number): number {
+    return (((upper - lower) % 12) + 12) % 12;
+  }
+
+  // Pitch class of the chord's seventh, if it has one
+  private getSeventh(chord: ChordInfo): number | null {
+    const [symbol] = chord.name.split("/");
+    const { tonic, intervals } = Chord.get(symbol);
+    const seventh = intervals.find(
+      (interval) => Interval.get(interval).num === 7
+    );
+    if (!tonic || !seventh) return null;
+
+    return Note.chroma(Note.transpose(tonic, seventh)) ?? null;
+  }
+
+  private getVoiceName(voice: number, voiceCount: number): string {
+    if (voiceCount === 4) return FOUR_PART_NAMES[voice];
+    if (voice === 0) return "Bass";
+    if (voice === voiceCount - 1) return "Top voice";
+    return `Voice ${voice + 1}`;
+  }
+
+  private sameNotes(a: number[], b: number[]): boolean {
+    return a.length === b.length && a.every((note, i) => note === b[i]);
+  }
+}
@@ -1,30 +1,72 @@
 // src/svelte/visualization/BackgroundRenderer.ts
-import type { KeySignatureInfo } from "../services/MusicTheoryService";
-import { FUNCTION_COLORS } from "./VisualNoteUtils";
+import { Chord, Note } from "@tonaljs/tonal";
+import type {
+  ChordInfo,
+  KeySignatureInfo,
+} from "../services/MusicTheoryService";
+import { NoteSpellingService } from "../services/NoteSpellingService";
+import { parseKeyName } from "../services/RomanNumeralService";
+import {
+  getThemeService,
+  mixRgb,
+  withAlpha,
+} from "../services/ThemeService";
+import type { VisualNote } from "./VisualNoteUtils";
+
+// How much an interval class pulls away from the root (0 is the root itself,
+// 1 the sharpest dissonance), indexed by semitones
+const INTERVAL_TENSION = [
+  0, 1, 0.75, 0.45, 0.35, 0.2, 0.9, 0.2, 0.35, 0.45, 0.75, 1,
+];
+
+// Rings of the harmonic field, from the root outwards
+const FIELD_RINGS = [
+  { tension: 0.2, label: "perfect" },
+  { tension: 0.4, label: "imperfect" },
+  { tension: 0.75, label: "mild dissonance" },
+  { tension: 1, label: "sharp dissonance" },
+];
+
+// Sounding notes closer than this pull together, further ones push apart
+const CONSONANCE_THRESHOLD = 0.4;
+
+// A major or minor triad, as the Tonnetz sees it
+export interface Triad {
+  root: number; // Pitch class, 0 is C
+  minor: boolean;
+}
+
+// A move between successive triads, animated one transformation at a time
+export interface TonnetzMove {
+  from: Triad;
+  to: Triad;
+  steps: string; // P, L and R in the order applied, e.g. "RL"
+  start: number; // Date.now() when the second chord arrived
+}
+
+type LatticePoint = { i: number; j: number }; // Fifths across, major thirds up
+
+// Duration of each transformation in a move (ms)
+const TONNETZ_STEP_DURATION = 600;
+const TONNETZ_MOVE_FADE = 2500;
+
+const TONNETZ_TRANSFORMATIONS = ["P", "L", "R"];
 
 // Calculate coordinates for notes on circle of fifths
 export function calculateCircleOfFifthsCoordinates(
   centerX: number,
   centerY: number,
-  radius: number
+  radius: number,
+  keyName: string | null = null
 ): Map<string, { x: number; y: number }> {
   const coordinates = new Map<string, { x: number; y: number }>();
 
-  // The 12 pitch classes in circle of fifths order (starting with C)
-  const circleOfFifths = [
-    "C",
-    "G",
-    "D",
-    "A",
-    "E",
-    "B",
-    "F#",
-    "C#",
-    "G#",
-    "D#",
-    "A#",
-    "F",
-  ];
+  // The 12 pitch classes in circle of fifths order (starting with C),
+  // spelled as they are written in the current key
+  const spelling = new NoteSpellingService(keyName);
+  const circleOfFifths = Array.from({ length: 12 }, (_, index) =>
+    spelling.spellPitchClass(index * 7)
+  );
 
   // Calculate coordinates for each pitch class
   circleOfFifths.forEach((pitch, index) => {
@@ -33,53 +75,96 @@ export function calculateCircleOfFifthsCoordinates(
     const y = centerY + radius * Math.sin(angle);
 
     coordinates.set(pitch, { x, y });
-
-    // Add enharmonic equivalents
-    if (pitch === "F#") coordinates.set("Gb", { x, y });
-    if (pitch === "C#") coordinates.set("Db", { x, y });
-    if (pitch === "G#") coordinates.set("Ab", { x, y });
-    if (pitch === "D#") coordinates.set("Eb", { x, y });
-    if (pitch === "A#") coordinates.set("Bb", { x, y });
   });
 
   return coordinates;
 }
 
-// Get position for a note based on visualization mode
-export function getNotePosition(
-  pitchClass: string,
-  scaleDegree: number | null,
+// Find a pitch class in a coordinate map, even when spelled another way
+export function getPitchClassPosition(
+  coordinates: Map<string, { x: number; y: number }>,
+  pitchClass: string
+): { x: number; y: number } | null {
+  const position = coordinates.get(pitchClass);
+  if (position) return position;
+
+  const chroma = Note.chroma(pitchClass);
+  for (const [name, point] of coordinates) {
+    if (Note.chroma(name) === chroma) return point;
+  }
+  return null;
+}
+
+// Random position for notes a mode cannot place
+export function getRandomPosition(
+  centerX: number,
+  centerY: number
+): { x: number; y: number } {
+  return {
+    x: Math.random() * (centerX * 2) * 0.8 + centerX * 2 * 0.1,
+    y: Math.random() * (centerY * 2) * 0.8 + centerY * 2 * 0.1,
+  };
+}
+
+// Position based on tonal function and gravity
+export function getTonalGravityPosition(
   noteFunction: string,
-  visualizationMode: string,
-  circleOfFifthsCoordinates: Map<string, { x: number; y: number }>,
+  scaleDegree: number | null,
   centerX: number,
   centerY: number,
-  circleRadius: number
+  radius: number
 ): { x: number; y: number } {
-  if (visualizationMode === "circle-of-fifths") {
-    // Position on circle of fifths
-    const position = circleOfFifthsCoordinates.get(pitchClass);
-    if (position) {
-      return position;
-    }
-  } else if (visualizationMode === "tonal-gravity") {
-    // Position based on tonal function and gravity
-    const distanceFactor = getDistanceFactorFromTonic(
-      noteFunction,
-      scaleDegree
-    );
-    const angle = getAngleForFunction(noteFunction, scaleDegree);
+  const distanceFactor = getDistanceFactorFromTonic(noteFunction, scaleDegree);
+  const angle = getAngleForFunction(noteFunction, scaleDegree);
 
-    return {
-      x: centerX + circleRadius * distanceFactor * Math.cos(angle),
-      y: centerY + circleRadius * distanceFactor * Math.sin(angle),
-    };
-  }
+  return {
+    x: centerX + radius * distanceFactor * Math.cos(angle),
+    y: centerY + radius * distanceFactor * Math.sin(angle),
+  };
+}
+
+/**
+ * Root of a chord; slash chords name their bass after the root
+ */
+export function getChordRoot(chord: ChordInfo | undefined): string | null {
+  if (!chord) return null;
+  return Chord.get(chord.name.split("/")[0]).tonic;
+}
+
+/**
+ * Tension of the interval between two pitch classes, from 0 (unison) to 1
+ * (minor second or major seventh)
+ */
+export function getIntervalTension(from: string, to: string): number {
+  const fromChroma = Note.chroma(from);
+  const toChroma = Note.chroma(to);
+  if (isNaN(fromChroma) || isNaN(toChroma)) return 0;
+
+  return INTERVAL_TENSION[(toChroma - fromChroma + 12) % 12];
+}
+
+// Place a pitch class in the harmonic field of a root: the more dissonant
+// the interval, the further out; the angle follows the circle of fifths from
+// the root, so fifth-related notes sit side by side
+export function getHarmonicFieldPosition(
+  pitchClass: string,
+  root: string,
+  centerX: number,
+  centerY: number,
+  radius: number
+): { x: number; y: number } | null {
+  const rootChroma = Note.chroma(root);
+  const chroma = Note.chroma(pitchClass);
+  if (isNaN(rootChroma) || isNaN(chroma)) return null;
+
+  const semitones = (chroma - rootChroma + 12) % 12;
+  const fifths = (semitones * 7) % 12;
+  const angle = fifths * ((2 * Math.PI) / 12) - Math.PI / 2;
+  const distance = radius * INTERVAL_TENSION[semitones];
 
-  // Default to random position as fallback
   return {
-    x: Math.random() * (centerX * 2) * 0.8 + centerX * 2 * 0.1,
-    y: Math.random() * (centerY * 2) * 0.8 + centerY * 2 * 0.1,
+    x: centerX + distance * Math.cos(angle),
+    y: centerY + distance * Math.sin(angle),
   };
 }
 
@@ -138,28 +223,35 @@ export function drawTonalGravityBackground(
   radius: number,
   currentKey: KeySignatureInfo | null,
   keyCenter: string,
-  keyMode: string
+  keyMode: string,
+  showAxes: boolean = true
 ): void {
+  const { palette, surface } = getThemeService().getTheme();
+
   // Draw concentric circles for tonal distances
   const circles = [0.1, 0.3, 0.5, 0.7, 0.9];
 
   circles.forEach((radiusFactor) => {
     ctx.beginPath();
     ctx.arc(centerX, centerY, radius * radiusFactor, 0, 2 * Math.PI);
-    ctx.strokeStyle = `rgba(100, 100, 100, ${0.1 + radiusFactor * 0.2})`;
+    ctx.strokeStyle = withAlpha(surface.guide, 0.1 + radiusFactor * 0.2);
     ctx.lineWidth = 1;
     ctx.stroke();
   });
 
   // Draw axes for tonal functions
   const functions = [
-    { name: "tonic", angle: -Math.PI / 2, color: FUNCTION_COLORS.tonic },
-    { name: "dominant", angle: 0, color: FUNCTION_COLORS.dominant },
-    { name: "subdominant", angle: Math.PI, color: FUNCTION_COLORS.subdominant },
-    { name: "mediant", angle: Math.PI / 3, color: FUNCTION_COLORS.mediant },
+    { name: "tonic", angle: -Math.PI / 2, color: palette.functions.tonic },
+    { name: "dominant", angle: 0, color: palette.functions.dominant },
+    {
+      name: "subdominant",
+      angle: Math.PI,
+      color: palette.functions.subdominant,
+    },
+    { name: "mediant", angle: Math.PI / 3, color: palette.functions.mediant },
   ];
 
-  functions.forEach((func) => {
+  (showAxes ? functions : []).forEach((func) => {
     const x = centerX + Math.cos(func.angle) * radius;
     const y = centerY + Math.sin(func.angle) * radius;
 
@@ -185,15 +277,15 @@ export function drawTonalGravityBackground(
   // Draw key center
   ctx.beginPath();
   ctx.arc(centerX, centerY, 15, 0, 2 * Math.PI);
-  ctx.fillStyle = "rgba(100, 200, 255, 0.3)";
+  ctx.fillStyle = withAlpha(palette.accent, 0.3);
   ctx.fill();
-  ctx.strokeStyle = "rgba(100, 200, 255, 0.8)";
+  ctx.strokeStyle = withAlpha(palette.accent, 0.8);
   ctx.lineWidth = 2;
   ctx.stroke();
 
   // Draw key name
   if (currentKey) {
-    ctx.fillStyle = "white";
+    ctx.fillStyle = surface.text;
     ctx.font = "bold 14px Arial";
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
@@ -211,20 +303,20 @@ export function drawCircleOfFifthsBackground(
   currentKey: KeySignatureInfo | null,
   keyCenter: string,
   keyMode: string,
-  scaleDegrees: Map<string, number>
+  scaleDegrees: Map<string, number>,
+  showScaleDegrees: boolean = true
 ): void {
+  const { palette, surface } = getThemeService().getTheme();
+
   // Draw main circle
   ctx.beginPath();
   ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-  ctx.strokeStyle = "rgba(100, 100, 100, 0.3)";
+  ctx.strokeStyle = withAlpha(surface.guide, 0.3);
   ctx.lineWidth = 1;
   ctx.stroke();
 
   // Draw pitch class positions
   circleOfFifthsCoordinates.forEach((position, pitchClass) => {
-    // Skip enharmonic duplicates
-    if (["Db", "Eb", "Gb", "Ab", "Bb"].includes(pitchClass)) return;
-
     // Check if this note is in the current key
     const isInKey = currentKey && currentKey.notes.includes(pitchClass);
     const scaleDegree = scaleDegrees.get(pitchClass);
@@ -234,13 +326,13 @@ export function drawCircleOfFifthsBackground(
 
     if (isInKey) {
       // Highlight notes in the current key
-      ctx.fillStyle = "rgba(100, 200, 255, 0.2)";
+      ctx.fillStyle = withAlpha(palette.accent, 0.2);
       ctx.fill();
-      ctx.strokeStyle = "rgba(100, 200, 255, 0.5)";
+      ctx.strokeStyle = withAlpha(palette.accent, 0.5);
     } else {
-      ctx.fillStyle = "rgba(50, 50, 50, 0.1)";
+      ctx.fillStyle = withAlpha(surface.guide, 0.1);
       ctx.fill();
-      ctx.strokeStyle = "rgba(100, 100, 100, 0.3)";
+      ctx.strokeStyle = withAlpha(surface.guide, 0.3);
     }
 
     ctx.lineWidth = 1;
@@ -248,15 +340,15 @@ export function drawCircleOfFifthsBackground(
 
     // Draw pitch class label
     ctx.fillStyle = isInKey
-      ? "rgba(200, 230, 255, 0.8)"
-      : "rgba(150, 150, 150, 0.5)";
+      ? surface.text
+      : withAlpha(surface.foreground, 0.5);
     ctx.font = "12px Arial";
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
     ctx.fillText(pitchClass, position.x, position.y);
 
     // If this is part of the current key, show scale degree
-    if (isInKey && scaleDegree !== undefined) {
+    if (showScaleDegrees && isInKey && scaleDegree !== undefined) {
       ctx.font = "10px Arial";
       ctx.fillText(`${scaleDegree}`, position.x, position.y + 15);
     }
@@ -268,14 +360,14 @@ export function drawCircleOfFifthsBackground(
     if (keyPosition) {
       ctx.beginPath();
       ctx.arc(keyPosition.x, keyPosition.y, 20, 0, 2 * Math.PI);
-      ctx.fillStyle = "rgba(100, 200, 255, 0.2)";
+      ctx.fillStyle = withAlpha(palette.accent, 0.2);
       ctx.fill();
-      ctx.strokeStyle = "rgba(100, 200, 255, 0.8)";
+      ctx.strokeStyle = withAlpha(palette.accent, 0.8);
       ctx.lineWidth = 2;
       ctx.stroke();
 
       // Draw key name
-      ctx.fillStyle = "white";
+      ctx.fillStyle = surface.text;
       ctx.font = "bold 14px Arial";
       ctx.textAlign = "center";
       ctx.textBaseline = "middle";
@@ -287,3 +379,528 @@ export function drawCircleOfFifthsBackground(
     }
   }
 }
+
+// Draw harmonic field background: rings of growing tension around the chord
+// root, a glow where sounding notes attract each other and a strained line
+// where they clash
+export function drawHarmonicFieldBackground(
+  ctx: CanvasRenderingContext2D,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  root: string | null,
+  keyName: string | null,
+  visualNotes: Map<string, VisualNote>,
+  time: number,
+  showForces: boolean = true
+): void {
+  const { palette, surface } = getThemeService().getTheme();
+  const fieldRoot = root ?? "C";
+
+  // Consonant well around the root, turning warm towards the edge
+  const gradient = ctx.createRadialGradient(
+    centerX,
+    centerY,
+    0,
+    centerX,
+    centerY,
+    radius * 1.1
+  );
+  gradient.addColorStop(0, withAlpha(palette.accent, 0.25));
+  gradient.addColorStop(0.5, withAlpha(palette.accent, 0.05));
+  gradient.addColorStop(1, withAlpha(palette.tension, 0.15));
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius * 1.1, 0, 2 * Math.PI);
+  ctx.fillStyle = gradient;
+  ctx.fill();
+
+  // Tension rings
+  FIELD_RINGS.forEach((ring) => {
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius * ring.tension, 0, 2 * Math.PI);
+    const color = mixRgb(palette.accent, palette.tension, ring.tension);
+    ctx.strokeStyle = withAlpha(color, 0.3);
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = withAlpha(surface.foreground, 0.5);
+    ctx.font = "10px Arial";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "bottom";
+    ctx.fillText(ring.label, centerX + 4, centerY - radius * ring.tension - 2);
+  });
+
+  // Where each pitch class would sit, spelled for the key
+  const spelling = new NoteSpellingService(keyName);
+  for (let chroma = 0; chroma < 12; chroma++) {
+    const pitchClass = spelling.spellPitchClass(chroma);
+    if (Note.chroma(pitchClass) === Note.chroma(fieldRoot)) continue;
+
+    const position = getHarmonicFieldPosition(
+      pitchClass,
+      fieldRoot,
+      centerX,
+      centerY,
+      radius
+    );
+    if (!position) continue;
+
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, 8, 0, 2 * Math.PI);
+    ctx.strokeStyle = withAlpha(surface.guide, 0.3);
+    ctx.lineWidth = 1;
+    ctx.stroke();
+
+    ctx.fillStyle = withAlpha(surface.foreground, 0.5);
+    ctx.font = "11px Arial";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(pitchClass, position.x, position.y);
+  }
+
+  // Forces between the notes that are still clearly visible
+  const notes = Array.from(visualNotes.values()).filter(
+    (note) => showForces && note.opacity > 0.3
+  );
+
+  for (let i = 0; i < notes.length; i++) {
+    for (let j = i + 1; j < notes.length; j++) {
+      const tension = getIntervalTension(
+        notes[i].pitchClass,
+        notes[j].pitchClass
+      );
+      if (tension === 0) continue;
+
+      const alpha = Math.min(notes[i].opacity, notes[j].opacity);
+      if (tension < CONSONANCE_THRESHOLD) {
+        drawAttraction(ctx, notes[i], notes[j], tension, alpha);
+      } else {
+        drawTension(ctx, notes[i], notes[j], tension, alpha, time);
+      }
+    }
+  }
+
+  // Chord root at the centre
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, 15, 0, 2 * Math.PI);
+  ctx.fillStyle = withAlpha(palette.accent, 0.3);
+  ctx.fill();
+  ctx.strokeStyle = withAlpha(palette.accent, 0.8);
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  if (root) {
+    ctx.fillStyle = surface.text;
+    ctx.font = "bold 14px Arial";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(root, centerX, centerY - 28);
+  }
+}
+
+// A soft band between consonant notes, stronger the more stable the interval
+function drawAttraction(
+  ctx: CanvasRenderingContext2D,
+  a: VisualNote,
+  b: VisualNote,
+  tension: number,
+  alpha: number
+): void {
+  const { accent } = getThemeService().getTheme().palette;
+  const strength = 1 - tension / CONSONANCE_THRESHOLD;
+
+  ctx.beginPath();
+  ctx.moveTo(a.x, a.y);
+  ctx.lineTo(b.x, b.y);
+  ctx.strokeStyle = withAlpha(accent, (0.15 + strength * 0.35) * alpha);
+  ctx.lineWidth = 4 + strength * 10;
+  ctx.lineCap = "round";
+  ctx.stroke();
+  ctx.lineCap = "butt";
+}
+
+// A vibrating zigzag between dissonant notes, faster the harsher the clash
+function drawTension(
+  ctx: CanvasRenderingContext2D,
+  a: VisualNote,
+  b: VisualNote,
+  tension: number,
+  alpha: number,
+  time: number
+): void {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length < 1) return;
+
+  // Unit normal to the line between the notes
+  const nx = -dy / length;
+  const ny = dx / length;
+  const segments = Math.max(4, Math.round(length / 12));
+  const amplitude = 2 + tension * 6;
+  const phase = (time / 1000) * (4 + tension * 12);
+
+  ctx.beginPath();
+  ctx.moveTo(a.x, a.y);
+  for (let i = 1; i < segments; i++) {
+    const t = i / segments;
+    const offset =
+      amplitude * Math.sin(i * Math.PI + phase) * Math.sin(t * Math.PI);
+    ctx.lineTo(a.x + dx * t + nx * offset, a.y + dy * t + ny * offset);
+  }
+  ctx.lineTo(b.x, b.y);
+  const color = getThemeService().getTheme().palette.tension;
+  ctx.strokeStyle = withAlpha(color, (0.3 + tension * 0.5) * alpha);
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+}
+
+// Calculate coordinates for notes on the Tonnetz. The key's tonic sits at
+// the centre; the chord root takes its place nearest the centre and every
+// other pitch class is placed around the root, so the notes of a major or
+// minor triad always form one triangle.
+export function calculateTonnetzCoordinates(
+  centerX: number,
+  centerY: number,
+  spacing: number,
+  keyName: string | null = null,
+  root: string | null = null
+): Map<string, { x: number; y: number }> {
+  const coordinates = new Map<string, { x: number; y: number }>();
+  const tonic = getTonicChroma(keyName);
+  const rootChroma = root ? Note.chroma(root) : tonic;
+  const rootPoint = getLatticePoint(
+    isNaN(rootChroma) ? tonic : rootChroma,
+    tonic
+  );
+
+  const spelling = new NoteSpellingService(keyName);
+  for (let chroma = 0; chroma < 12; chroma++) {
+    const offset = getLatticePoint(chroma, rootPoint.chroma);
+    coordinates.set(
+      spelling.spellPitchClass(chroma),
+      latticeToXY(
+        { i: rootPoint.i + offset.i, j: rootPoint.j + offset.j },
+        centerX,
+        centerY,
+        spacing
+      )
+    );
+  }
+
+  return coordinates;
+}
+
+/**
+ * Shortest chain of neo-Riemannian transformations (parallel, leading-tone
+ * exchange, relative) from one triad to another, up to three steps; null
+ * when they are further apart
+ */
+export function getTonnetzTransformation(
+  from: Triad,
+  to: Triad
+): string | null {
+  let frontier: { triad: Triad; steps: string }[] = [
+    { triad: from, steps: "" },
+  ];
+
+  for (let depth = 0; depth <= 3; depth++) {
+    const found = frontier.find(({ triad }) => isSameTriad(triad, to));
+    if (found) return found.steps;
+
+    frontier = frontier.flatMap(({ triad, steps }) =>
+      TONNETZ_TRANSFORMATIONS.map((name) => ({
+        triad: transformTriad(triad, name),
+        steps: steps + name,
+      }))
+    );
+  }
+
+  return null;
+}
+
+function transformTriad(triad: Triad, transformation: string): Triad {
+  const { root, minor } = triad;
+  switch (transformation) {
+    case "P":
+      return { root, minor: !minor };
+    case "L":
+      return { root: (root + (minor ? 8 : 4)) % 12, minor: !minor };
+    case "R":
+      return { root: (root + (minor ? 3 : 9)) % 12, minor: !minor };
+    default:
+      return triad;
+  }
+}
+
+function isSameTriad(a: Triad, b: Triad): boolean {
+  return a.root === b.root && a.minor === b.minor;
+}
+
+function getTonicChroma(keyName: string | null): number {
+  if (!keyName) return 0;
+  const chroma = Note.chroma(parseKeyName(keyName).tonic);
+  return isNaN(chroma) ? 0 : chroma;
+}
+
+// Lattice point of a pitch class in the block of four fifths by three
+// major thirds around an origin, which holds each pitch class once
+function getLatticePoint(
+  chroma: number,
+  origin: number
+): LatticePoint & { chroma: number } {
+  for (let i = -1; i <= 2; i++) {
+    for (let j = -1; j <= 1; j++) {
+      if ((((origin + 7 * i + 4 * j) % 12) + 12) % 12 === chroma) {
+        return { i, j, chroma };
+      }
+    }
+  }
+  return { i: 0, j: 0, chroma: origin };
+}
+
+function latticeToXY(
+  point: LatticePoint,
+  centerX: number,
+  centerY: number,
+  spacing: number
+): { x: number; y: number } {
+  return {
+    x: centerX + (point.i + point.j / 2) * spacing,
+    y: centerY - (point.j * spacing * Math.sqrt(3)) / 2,
+  };
+}
+
+// Corners of a triad's triangle as root, third and fifth, placed the same
+// way as the notes
+function getTriadCorners(
+  triad: Triad,
+  tonic: number
+): { chroma: number; point: LatticePoint }[] {
+  const root = getLatticePoint(triad.root, tonic);
+  const third = triad.minor ? { i: 1, j: -1 } : { i: 0, j: 1 };
+
+  return [
+    { chroma: triad.root, point: root },
+    {
+      chroma: (triad.root + (triad.minor ? 3 : 4)) % 12,
+      point: { i: root.i + third.i, j: root.j + third.j },
+    },
+    { chroma: (triad.root + 7) % 12, point: { i: root.i + 1, j: root.j } },
+  ];
+}
+
+// Draw Tonnetz background: the lattice of fifths and thirds, the held triad
+// as a lit triangle and the latest P/L/R move between triads
+export function drawTonnetzBackground(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  centerX: number,
+  centerY: number,
+  spacing: number,
+  keyName: string | null,
+  heldTriad: Triad | null,
+  move: TonnetzMove | null,
+  time: number
+): void {
+  const { palette, surface } = getThemeService().getTheme();
+  const tonic = getTonicChroma(keyName);
+  const spelling = new NoteSpellingService(keyName);
+  const rowHeight = (spacing * Math.sqrt(3)) / 2;
+  const rows = Math.ceil(height / 2 / rowHeight) + 1;
+  const columns = Math.ceil(width / 2 / spacing) + rows;
+  const toXY = (point: LatticePoint) =>
+    latticeToXY(point, centerX, centerY, spacing);
+
+  // Edges: fifths, major thirds and minor thirds
+  ctx.strokeStyle = withAlpha(surface.guide, 0.3);
+  ctx.lineWidth = 1;
+  for (let j = -rows; j <= rows; j++) {
+    for (let i = -columns; i <= columns; i++) {
+      const from = toXY({ i, j });
+      if (from.x < -spacing || from.x > width + spacing) continue;
+
+      [
+        { i: i + 1, j },
+        { i, j: j + 1 },
+        { i: i + 1, j: j - 1 },
+      ].forEach((neighbour) => {
+        const to = toXY(neighbour);
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+      });
+    }
+  }
+
+  if (heldTriad) {
+    drawTriadTriangle(
+      ctx,
+      getTriadCorners(heldTriad, tonic).map(({ point }) => toXY(point)),
+      heldTriad.minor ? palette.functions.mediant : palette.functions.tonic,
+      0.35
+    );
+  }
+
+  if (move) {
+    drawTonnetzMove(ctx, move, tonic, toXY, time);
+  }
+
+  // Nodes, labelled with the pitch class they stand for
+  for (let j = -rows; j <= rows; j++) {
+    for (let i = -columns; i <= columns; i++) {
+      const { x, y } = toXY({ i, j });
+      if (x < -spacing || x > width + spacing) continue;
+      if (y < -spacing || y > height + spacing) continue;
+
+      const chroma = (((tonic + 7 * i + 4 * j) % 12) + 12) % 12;
+      const isTonic = chroma === tonic && keyName !== null;
+
+      ctx.beginPath();
+      ctx.arc(x, y, 12, 0, 2 * Math.PI);
+      ctx.fillStyle = isTonic
+        ? withAlpha(palette.accent, 0.3)
+        : surface.background;
+      ctx.fill();
+      ctx.strokeStyle = isTonic
+        ? withAlpha(palette.accent, 0.8)
+        : withAlpha(surface.guide, 0.5);
+      ctx.stroke();
+
+      ctx.fillStyle = withAlpha(surface.foreground, 0.7);
+      ctx.font = "11px Arial";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(spelling.spellPitchClass(chroma), x, y);
+    }
+  }
+}
+
+function drawTriadTriangle(
+  ctx: CanvasRenderingContext2D,
+  corners: { x: number; y: number }[],
+  color: string,
+  fillAlpha: number
+): void {
+  ctx.beginPath();
+  ctx.moveTo(corners[0].x, corners[0].y);
+  corners.slice(1).forEach((corner) => ctx.lineTo(corner.x, corner.y));
+  ctx.closePath();
+
+  ctx.globalAlpha = fillAlpha;
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
+
+// Flip the triangle through each transformation of the move in turn, then
+// leave an arrow with the transformation names that fades away
+function drawTonnetzMove(
+  ctx: CanvasRenderingContext2D,
+  move: TonnetzMove,
+  tonic: number,
+  toXY: (point: LatticePoint) => { x: number; y: number },
+  time: number
+): void {
+  const elapsed = time - move.start;
+  const animation = TONNETZ_STEP_DURATION * Math.max(1, move.steps.length);
+  if (elapsed > animation + TONNETZ_MOVE_FADE) return;
+
+  const { highlight } = getThemeService().getTheme().palette;
+
+  // Triads passed through on the way
+  const triads = [move.from];
+  move.steps.split("").forEach((name) => {
+    triads.push(transformTriad(triads[triads.length - 1], name));
+  });
+  if (move.steps.length === 0) triads.push(move.to);
+
+  const centroid = (triad: Triad) => {
+    const corners = getTriadCorners(triad, tonic).map(({ point }) =>
+      toXY(point)
+    );
+    return {
+      x: (corners[0].x + corners[1].x + corners[2].x) / 3,
+      y: (corners[0].y + corners[1].y + corners[2].y) / 3,
+    };
+  };
+
+  if (elapsed < animation) {
+    // Shared notes stay put while the odd one out swings across
+    const index = Math.min(
+      triads.length - 2,
+      Math.floor(elapsed / TONNETZ_STEP_DURATION)
+    );
+    const stepElapsed = elapsed - index * TONNETZ_STEP_DURATION;
+    const progress = easeInOut(
+      Math.min(1, stepElapsed / TONNETZ_STEP_DURATION)
+    );
+    const fromCorners = getTriadCorners(triads[index], tonic);
+    const toCorners = getTriadCorners(triads[index + 1], tonic);
+    const leaving = fromCorners.find(
+      (corner) => !toCorners.some(({ chroma }) => chroma === corner.chroma)
+    );
+
+    const corners = toCorners.map((corner) => {
+      const shared = fromCorners.find(
+        ({ chroma }) => chroma === corner.chroma
+      );
+      const start = toXY((shared ?? leaving ?? corner).point);
+      const end = toXY(corner.point);
+      return {
+        x: start.x + (end.x - start.x) * progress,
+        y: start.y + (end.y - start.y) * progress,
+      };
+    });
+
+    drawTriadTriangle(ctx, corners, withAlpha(highlight, 1), 0.2);
+  }
+
+  // Arrow from the first triad to the last, labelled with the move
+  const alpha =
+    elapsed < animation ? 1 : 1 - (elapsed - animation) / TONNETZ_MOVE_FADE;
+  const from = centroid(move.from);
+  const to = centroid(move.to);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+
+  ctx.globalAlpha = alpha;
+  ctx.strokeStyle = withAlpha(highlight, 0.9);
+  ctx.fillStyle = withAlpha(highlight, 0.9);
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(
+    to.x - 10 * Math.cos(angle - Math.PI / 6),
+    to.y - 10 * Math.sin(angle - Math.PI / 6)
+  );
+  ctx.lineTo(
+    to.x - 10 * Math.cos(angle + Math.PI / 6),
+    to.y - 10 * Math.sin(angle + Math.PI / 6)
+  );
+  ctx.closePath();
+  ctx.fill();
+
+  if (move.steps) {
+    ctx.font = "bold 16px Arial";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "bottom";
+    ctx.fillText(move.steps, (from.x + to.x) / 2, (from.y + to.y) / 2 - 6);
+  }
+  ctx.globalAlpha = 1;
+}
+
+function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
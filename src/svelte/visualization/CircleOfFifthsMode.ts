@@ -0,0 +1,117 @@
+// src/svelte/visualization/CircleOfFifthsMode.ts
+import {
+  calculateCircleOfFifthsCoordinates,
+  drawCircleOfFifthsBackground,
+  getChordRoot,
+  getPitchClassPosition,
+} from "./BackgroundRenderer";
+import {
+  drawHarmonicSummary,
+  drawHarmonicTrail,
+  HarmonicTrail,
+} from "./HarmonicTrail";
+import type {
+  NotePlacement,
+  RenderContext,
+  RendererDefinition,
+  VisualizationRenderer,
+} from "./RendererRegistry";
+
+// Notes on the circle of fifths, spelled for the current key, over the
+// path the harmony has taken
+class CircleOfFifthsRenderer implements VisualizationRenderer {
+  private coordinates = new Map<string, { x: number; y: number }>();
+  private trail = new HarmonicTrail();
+
+  layout(context: RenderContext): void {
+    this.coordinates = calculateCircleOfFifthsCoordinates(
+      context.centerX,
+      context.centerY,
+      context.radius,
+      context.currentKey?.keyName ?? null
+    );
+
+    this.trail.update(
+      getChordRoot(context.chords[0]),
+      context.currentKey ? context.keyCenter : null,
+      context.keyMode,
+      context.time
+    );
+  }
+
+  getNotePosition(
+    note: NotePlacement,
+    context: RenderContext
+  ): { x: number; y: number } | null {
+    return getPitchClassPosition(this.coordinates, note.pitchClass);
+  }
+
+  drawBackground(ctx: CanvasRenderingContext2D, context: RenderContext): void {
+    // The path goes underneath the pitch classes it passes through
+    const length = Number(context.settings.trailLength);
+    if (context.settings.showSummary === true) {
+      drawHarmonicSummary(
+        ctx,
+        this.coordinates,
+        context.centerX,
+        context.centerY,
+        this.trail.getJourney(context.time)
+      );
+    } else if (length > 0) {
+      drawHarmonicTrail(
+        ctx,
+        this.coordinates,
+        context.centerX,
+        context.centerY,
+        this.trail,
+        length,
+        context.time
+      );
+    }
+
+    drawCircleOfFifthsBackground(
+      ctx,
+      this.coordinates,
+      context.centerX,
+      context.centerY,
+      context.radius,
+      context.currentKey,
+      context.keyCenter,
+      context.keyMode,
+      context.scaleDegrees,
+      context.settings.showScaleDegrees !== false
+    );
+  }
+}
+
+export const circleOfFifthsMode: RendererDefinition = {
+  id: "circle-of-fifths",
+  name: "Circle of Fifths",
+  settings: [
+    {
+      key: "showScaleDegrees",
+      label: "Scale degrees",
+      type: "toggle",
+      default: true,
+    },
+    {
+      key: "trailLength",
+      label: "Trail",
+      type: "select",
+      options: [
+        { value: "0", label: "Off" },
+        { value: "8", label: "8 chords" },
+        { value: "16", label: "16 chords" },
+        { value: "32", label: "32 chords" },
+      ],
+      default: "16",
+    },
+    {
+      key: "showSummary",
+      label: "Session summary",
+      type: "toggle",
+      default: false,
+    },
+  ],
+  create: () => new CircleOfFifthsRenderer(),
+};
@@ -3,7 +3,9 @@ import type {
   IntervalInfo,
   KeySignatureInfo,
 } from "../services/MusicTheoryService";
+import type { VoiceLeadingAnalysis } from "../services/VoiceLeadingService";
 import type { VisualNote, VisualChord } from "./VisualNoteUtils";
+import { getThemeService, withAlpha } from "../services/ThemeService";
 import { Note } from "@tonaljs/tonal";
 
 // Draw notes
@@ -11,6 +13,8 @@ export function drawNotes(
   ctx: CanvasRenderingContext2D,
   visualNotes: Map<string, VisualNote>
 ): void {
+  const { surface } = getThemeService().getTheme();
+
   // Sort notes by radius so larger notes are drawn first (appear behind)
   const sortedNotes = Array.from(visualNotes.values()).sort(
     (a, b) => b.radius - a.radius
@@ -26,9 +30,7 @@ export function drawNotes(
     ctx.fill();
 
     // Draw outline
-    ctx.strokeStyle = note.active
-      ? "rgba(255, 255, 255, 0.8)"
-      : "rgba(255, 255, 255, 0.3)";
+    ctx.strokeStyle = withAlpha(surface.foreground, note.active ? 0.8 : 0.3);
     ctx.lineWidth = note.active ? 3 : 1;
     ctx.stroke();
 
@@ -36,7 +38,7 @@ export function drawNotes(
     if (note.chordTones.length > 0) {
       ctx.beginPath();
       ctx.arc(note.x, note.y, note.radius * 1.2, 0, 2 * Math.PI);
-      ctx.strokeStyle = "rgba(255, 255, 255, 0.6)";
+      ctx.strokeStyle = withAlpha(surface.foreground, 0.6);
       ctx.lineWidth = 2;
       ctx.stroke();
     }
@@ -51,12 +53,14 @@ export function drawNoteLabels(
   ctx: CanvasRenderingContext2D,
   visualNotes: Map<string, VisualNote>
 ): void {
+  const { surface } = getThemeService().getTheme();
+
   visualNotes.forEach((note) => {
     // Only draw labels for notes with sufficient opacity
     if (note.opacity < 0.4) return;
 
     ctx.globalAlpha = note.opacity;
-    ctx.fillStyle = "white";
+    ctx.fillStyle = surface.text;
     ctx.font = note.active ? "bold 14px Arial" : "12px Arial";
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
@@ -80,6 +84,8 @@ export function drawChordAreas(
   ctx: CanvasRenderingContext2D,
   visualChords: VisualChord[]
 ): void {
+  const { surface } = getThemeService().getTheme();
+
   visualChords.forEach((chord) => {
     // Draw circle for chord area
     ctx.beginPath();
@@ -89,20 +95,34 @@ export function drawChordAreas(
     ctx.fill();
 
     // Draw chord name
-    ctx.fillStyle = "white";
+    ctx.fillStyle = surface.text;
     ctx.font = "bold 16px Arial";
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
     ctx.fillText(chord.name, chord.centerX, chord.centerY);
 
-    // If it has a roman numeral function, display it
-    if (chord.rootScaleDegree !== null) {
+    // If it has a roman numeral function, display it with its inversion
+    if (chord.romanNumeral) {
+      ctx.font = "14px Arial";
+      ctx.fillText(
+        `(${chord.romanNumeral})`,
+        chord.centerX,
+        chord.centerY + 20
+      );
+    } else if (chord.rootScaleDegree !== null) {
       ctx.font = "14px Arial";
       ctx.fillText(
         `(${romanNumeralFromDegree(chord.rootScaleDegree)})`,
         chord.centerX,
         chord.centerY + 20
       );
+    } else if (chord.inversion && chord.inversion !== "root") {
+      ctx.font = "14px Arial";
+      ctx.fillText(
+        `(${chord.inversion})`,
+        chord.centerX,
+        chord.centerY + 20
+      );
     }
   });
 
@@ -192,15 +212,16 @@ export function shouldShowResolution(
     const pc2 = Note.get(note2).pc;
 
     if (currentKey && currentKey.notes.length > 0) {
-      const tonic = currentKey.notes[0];
-      const leadingTone =
-        keyMode === "major"
-          ? Note.transpose(tonic, "7M")
-          : Note.transpose(tonic, "7m");
+      // The leading tone is a semitone below the tonic in every mode, even
+      // where the scale itself has a flat seventh
+      const tonic = Note.chroma(currentKey.notes[0]);
+      const leadingTone = tonic === undefined ? undefined : (tonic + 11) % 12;
+      const chroma1 = Note.chroma(pc1);
+      const chroma2 = Note.chroma(pc2);
 
       return (
-        (pc1 === leadingTone && pc2 === tonic) ||
-        (pc2 === leadingTone && pc1 === tonic)
+        (chroma1 === leadingTone && chroma2 === tonic) ||
+        (chroma2 === leadingTone && chroma1 === tonic)
       );
     }
   }
@@ -277,7 +298,8 @@ export function drawResolutionArrow(
   ctx.lineTo(-arrowLength, -arrowWidth / 2);
   ctx.closePath();
 
-  ctx.fillStyle = typeof color === "string" ? color : "white";
+  const { surface } = getThemeService().getTheme();
+  ctx.fillStyle = typeof color === "string" ? color : surface.text;
   ctx.globalAlpha = opacity * 0.9;
   ctx.fill();
 
@@ -306,3 +328,59 @@ export function getIntervalThickness(interval: IntervalInfo): number {
 
   return intervalThicknessMap[interval.name] || 1;
 }
+
+// Draw each voice's move from the previous chord to the current one, marking
+// voices with a voice-leading problem, leaps and steps in the palette colours
+export function drawVoiceLeadingLines(
+  ctx: CanvasRenderingContext2D,
+  voiceLeading: VoiceLeadingAnalysis | null,
+  getPosition: (midiNumber: number) => { x: number; y: number } | null
+): void {
+  if (!voiceLeading) return;
+
+  const { motion: colors } = getThemeService().getTheme().palette;
+  const problemVoices = new Set(
+    voiceLeading.issues.flatMap((issue) => issue.voices)
+  );
+
+  voiceLeading.motions.forEach((motion) => {
+    if (motion.kind === "static") return;
+
+    const from = getPosition(motion.from);
+    const to = getPosition(motion.to);
+    if (!from || !to) return;
+
+    let color = colors.step;
+    if (problemVoices.has(motion.voice)) {
+      color = colors.problem;
+    } else if (motion.kind === "leap") {
+      color = colors.leap;
+    }
+
+    ctx.save();
+    ctx.globalAlpha = 0.8;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+
+    // Arrow head at the current note
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    ctx.setLineDash([]);
+    ctx.translate(to.x, to.y);
+    ctx.rotate(angle);
+    ctx.beginPath();
+    ctx.moveTo(-18, 0);
+    ctx.lineTo(-28, -5);
+    ctx.lineTo(-28, 5);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.restore();
+  });
+}
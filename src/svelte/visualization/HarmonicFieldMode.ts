@@ -0,0 +1,65 @@
+// src/svelte/visualization/HarmonicFieldMode.ts
+import {
+  drawHarmonicFieldBackground,
+  getChordRoot,
+  getHarmonicFieldPosition,
+} from "./BackgroundRenderer";
+import type {
+  NotePlacement,
+  RenderContext,
+  RendererDefinition,
+  VisualizationRenderer,
+} from "./RendererRegistry";
+
+// Notes placed by their tension against the root of the chord
+class HarmonicFieldRenderer implements VisualizationRenderer {
+  private root: string | null = null;
+
+  // Centred on the chord root, or the key without one
+  layout(context: RenderContext): void {
+    this.root =
+      getChordRoot(context.chords[0]) ??
+      (context.currentKey ? context.keyCenter : null);
+  }
+
+  getNotePosition(
+    note: NotePlacement,
+    context: RenderContext
+  ): { x: number; y: number } | null {
+    return getHarmonicFieldPosition(
+      note.pitchClass,
+      this.root ?? "C",
+      context.centerX,
+      context.centerY,
+      context.radius
+    );
+  }
+
+  drawBackground(ctx: CanvasRenderingContext2D, context: RenderContext): void {
+    drawHarmonicFieldBackground(
+      ctx,
+      context.centerX,
+      context.centerY,
+      context.radius,
+      this.root,
+      context.currentKey?.keyName ?? null,
+      context.visualNotes,
+      context.time,
+      context.settings.showForces !== false
+    );
+  }
+}
+
+export const harmonicFieldMode: RendererDefinition = {
+  id: "harmonic-field",
+  name: "Harmonic Field",
+  settings: [
+    {
+      key: "showForces",
+      label: "Forces",
+      type: "toggle",
+      default: true,
+    },
+  ],
+  create: () => new HarmonicFieldRenderer(),
+};
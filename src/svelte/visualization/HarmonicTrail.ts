@@ -0,0 +1,406 @@
+// src/svelte/visualization/HarmonicTrail.ts
+import { Note } from "@tonaljs/tonal";
+import { getThemeService, withAlpha } from "../services/ThemeService";
+import { getPitchClassPosition } from "./BackgroundRenderer";
+
+type Point = { x: number; y: number };
+
+// A chord root or key centre, from when it arrived until the next one
+export interface HarmonicStop {
+  id: string; // The same root or key however it is spelled
+  name: string; // Root, or key tonic with "m" for minor keys, e.g. "Am"
+  pitchClass: string;
+  start: number;
+  end: number | null; // null while it is still current
+}
+
+// A move from one root or key to another, and how often it was made
+export interface HarmonicMove {
+  from: HarmonicStop;
+  to: HarmonicStop;
+  count: number;
+}
+
+// Totals for the whole session, for the summary view
+export interface HarmonicJourney {
+  roots: { stop: HarmonicStop; time: number }[];
+  keys: { stop: HarmonicStop; time: number }[];
+  rootMoves: HarmonicMove[];
+  modulations: HarmonicMove[];
+}
+
+// Stops kept for the trail; totals cover the whole session
+const MAX_TRAIL = 64;
+
+// Key centres sit on an inner ring, inside the chord roots
+const KEY_RING = 0.7;
+
+/**
+ * Follows the chord roots and key centres of a session as they change,
+ * keeping the most recent stops for the trail and the time spent on each
+ * root and key for the summary
+ */
+export class HarmonicTrail {
+  private roots = new HarmonicPath();
+  private keys = new HarmonicPath();
+
+  /**
+   * Note the current chord root and key centre; either may be null when
+   * there is none. Calling again with the same ones changes nothing.
+   */
+  public update(
+    root: string | null,
+    keyCenter: string | null,
+    keyMode: string,
+    time: number
+  ): void {
+    this.roots.update(
+      root
+        ? { id: `${Note.chroma(root)}`, name: root, pitchClass: root }
+        : null,
+      time
+    );
+    this.keys.update(
+      keyCenter
+        ? {
+            id: `${Note.chroma(keyCenter)} ${keyMode}`,
+            name: getKeyLabel(keyCenter, keyMode),
+            pitchClass: keyCenter,
+          }
+        : null,
+      time
+    );
+  }
+
+  public getRoots(): HarmonicStop[] {
+    return this.roots.getStops();
+  }
+
+  public getKeys(): HarmonicStop[] {
+    return this.keys.getStops();
+  }
+
+  public getJourney(time: number): HarmonicJourney {
+    return {
+      roots: this.roots.getTimes(time),
+      keys: this.keys.getTimes(time),
+      rootMoves: this.roots.getMoves(),
+      modulations: this.keys.getMoves(),
+    };
+  }
+}
+
+// Stops of one kind, with the time spent on each and the moves between them
+class HarmonicPath {
+  private stops: HarmonicStop[] = [];
+  private times = new Map<string, { stop: HarmonicStop; time: number }>();
+  private moves = new Map<string, HarmonicMove>();
+
+  update(
+    next: Pick<HarmonicStop, "id" | "name" | "pitchClass"> | null,
+    time: number
+  ): void {
+    const last = this.stops[this.stops.length - 1];
+    if (last && last.end === null && last.id === next?.id) return;
+
+    if (last && last.end === null) {
+      last.end = time;
+      this.addTime(last, time - last.start);
+    }
+    if (!next) return;
+
+    const stop: HarmonicStop = { ...next, start: time, end: null };
+    if (last && last.id !== stop.id) {
+      const id = `${last.id}>${stop.id}`;
+      const move = this.moves.get(id);
+      if (move) {
+        move.count++;
+      } else {
+        this.moves.set(id, { from: last, to: stop, count: 1 });
+      }
+    }
+
+    this.stops.push(stop);
+    if (this.stops.length > MAX_TRAIL) this.stops.shift();
+  }
+
+  getStops(): HarmonicStop[] {
+    return this.stops;
+  }
+
+  // Time on each stop so far, the current one included
+  getTimes(time: number): { stop: HarmonicStop; time: number }[] {
+    const totals = new Map(
+      Array.from(this.times, ([id, total]) => [id, { ...total }])
+    );
+    const last = this.stops[this.stops.length - 1];
+    if (last && last.end === null) {
+      const total = totals.get(last.id);
+      if (total) {
+        total.time += time - last.start;
+      } else {
+        totals.set(last.id, { stop: last, time: time - last.start });
+      }
+    }
+    return Array.from(totals.values());
+  }
+
+  getMoves(): HarmonicMove[] {
+    return Array.from(this.moves.values());
+  }
+
+  private addTime(stop: HarmonicStop, duration: number): void {
+    const total = this.times.get(stop.id);
+    if (total) {
+      total.time += duration;
+    } else {
+      this.times.set(stop.id, { stop, time: duration });
+    }
+  }
+}
+
+// "C" for C major, "Am" for A minor, other modes in full
+function getKeyLabel(keyCenter: string, keyMode: string): string {
+  if (keyMode === "major") return keyCenter;
+  if (keyMode === "minor") return `${keyCenter}m`;
+  return `${keyCenter} ${keyMode}`;
+}
+
+/**
+ * Draw the most recent chord roots as a path round the circle of fifths and
+ * the key centres as a path on a ring inside it. Older stops fade, longer
+ * ones are drawn larger and each change of key is marked with its name.
+ */
+export function drawHarmonicTrail(
+  ctx: CanvasRenderingContext2D,
+  coordinates: Map<string, Point>,
+  centerX: number,
+  centerY: number,
+  trail: HarmonicTrail,
+  length: number,
+  time: number
+): void {
+  const { palette, surface } = getThemeService().getTheme();
+  const center = { x: centerX, y: centerY };
+
+  const drawPath = (
+    stops: HarmonicStop[],
+    ring: number,
+    rgb: string,
+    lineWidth: number
+  ) => {
+    const points = stops.map((stop) =>
+      getRingPosition(coordinates, stop.pitchClass, center, ring)
+    );
+
+    points.forEach((point, index) => {
+      if (!point) return;
+      const fade = (index + 1) / points.length;
+      const previous = points[index - 1];
+
+      if (previous) {
+        ctx.beginPath();
+        traceArc(ctx, previous, point, center);
+        ctx.strokeStyle = withAlpha(rgb, 0.6 * fade);
+        ctx.lineWidth = lineWidth;
+        ctx.stroke();
+      }
+
+      const stop = stops[index];
+      ctx.beginPath();
+      ctx.arc(
+        point.x,
+        point.y,
+        getDwellRadius((stop.end ?? time) - stop.start),
+        0,
+        2 * Math.PI
+      );
+      ctx.fillStyle = withAlpha(rgb, 0.25 * fade);
+      ctx.fill();
+    });
+
+    return points;
+  };
+
+  drawPath(trail.getRoots().slice(-length), 1, palette.accent, 2);
+
+  // Modulations are labelled where the new key arrives
+  const keys = trail.getKeys().slice(-length);
+  const keyPoints = drawPath(keys, KEY_RING, palette.highlight, 3);
+  keyPoints.forEach((point, index) => {
+    if (!point || index === 0) return;
+    const fade = (index + 1) / keyPoints.length;
+
+    drawDiamond(ctx, point, 6);
+    ctx.fillStyle = withAlpha(palette.highlight, 0.9 * fade);
+    ctx.fill();
+
+    ctx.fillStyle = withAlpha(surface.foreground, fade);
+    ctx.font = "bold 11px Arial";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.fillText(`→ ${keys[index].name}`, point.x, point.y + 9);
+  });
+}
+
+/**
+ * Draw the whole session at once: the time spent on each chord root and
+ * key as the size of its node, the moves between roots as lines thickening
+ * with use, and modulations as arrows between key centres
+ */
+export function drawHarmonicSummary(
+  ctx: CanvasRenderingContext2D,
+  coordinates: Map<string, Point>,
+  centerX: number,
+  centerY: number,
+  journey: HarmonicJourney
+): void {
+  const { palette, surface } = getThemeService().getTheme();
+  const center = { x: centerX, y: centerY };
+
+  // Moves between roots
+  journey.rootMoves.forEach((move) => {
+    const from = getRingPosition(coordinates, move.from.pitchClass, center, 1);
+    const to = getRingPosition(coordinates, move.to.pitchClass, center, 1);
+    if (!from || !to) return;
+
+    ctx.beginPath();
+    traceArc(ctx, from, to, center);
+    ctx.strokeStyle = withAlpha(palette.accent, 0.35);
+    ctx.lineWidth = 1 + Math.log2(move.count) * 1.5;
+    ctx.stroke();
+  });
+
+  // Time on each root, as a share of the session
+  const rootTotal = journey.roots.reduce((sum, root) => sum + root.time, 0);
+  journey.roots.forEach(({ stop, time }) => {
+    const point = getRingPosition(coordinates, stop.pitchClass, center, 1);
+    if (!point || rootTotal <= 0) return;
+
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 6 + (time / rootTotal) * 30, 0, 2 * Math.PI);
+    ctx.fillStyle = withAlpha(palette.accent, 0.25);
+    ctx.fill();
+  });
+
+  // Modulations, with an arrow halfway along showing which way they went
+  journey.modulations.forEach((move) => {
+    const from = getRingPosition(
+      coordinates,
+      move.from.pitchClass,
+      center,
+      KEY_RING
+    );
+    const to = getRingPosition(
+      coordinates,
+      move.to.pitchClass,
+      center,
+      KEY_RING
+    );
+    if (!from || !to) return;
+
+    ctx.beginPath();
+    const control = traceArc(ctx, from, to, center);
+    ctx.strokeStyle = withAlpha(palette.highlight, 0.7);
+    ctx.lineWidth = 2 + Math.log2(move.count) * 1.5;
+    ctx.stroke();
+
+    // Point and direction of the curve at its middle
+    const mid = {
+      x: (from.x + 2 * control.x + to.x) / 4,
+      y: (from.y + 2 * control.y + to.y) / 4,
+    };
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    ctx.beginPath();
+    ctx.moveTo(mid.x + 8 * Math.cos(angle), mid.y + 8 * Math.sin(angle));
+    ctx.lineTo(
+      mid.x + 8 * Math.cos(angle + (2 * Math.PI) / 3),
+      mid.y + 8 * Math.sin(angle + (2 * Math.PI) / 3)
+    );
+    ctx.lineTo(
+      mid.x + 8 * Math.cos(angle - (2 * Math.PI) / 3),
+      mid.y + 8 * Math.sin(angle - (2 * Math.PI) / 3)
+    );
+    ctx.closePath();
+    ctx.fillStyle = withAlpha(palette.highlight, 0.9);
+    ctx.fill();
+  });
+
+  // Time in each key, labelled with its share
+  const keyTotal = journey.keys.reduce((sum, key) => sum + key.time, 0);
+  journey.keys.forEach(({ stop, time }) => {
+    const point = getRingPosition(
+      coordinates,
+      stop.pitchClass,
+      center,
+      KEY_RING
+    );
+    if (!point || keyTotal <= 0) return;
+    const share = time / keyTotal;
+
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 6 + share * 24, 0, 2 * Math.PI);
+    ctx.fillStyle = withAlpha(palette.highlight, 0.3);
+    ctx.fill();
+    ctx.strokeStyle = withAlpha(palette.highlight, 0.8);
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+
+    ctx.fillStyle = surface.text;
+    ctx.font = "bold 11px Arial";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    const label = `${stop.name} ${Math.round(share * 100)}%`;
+    ctx.fillText(label, point.x, point.y);
+  });
+}
+
+// Where a pitch class sits on the circle, pulled towards the centre
+function getRingPosition(
+  coordinates: Map<string, Point>,
+  pitchClass: string,
+  center: Point,
+  ring: number
+): Point | null {
+  const position = getPitchClassPosition(coordinates, pitchClass);
+  if (!position) return null;
+  return {
+    x: center.x + (position.x - center.x) * ring,
+    y: center.y + (position.y - center.y) * ring,
+  };
+}
+
+// Node size for the time spent on a stop (ms)
+function getDwellRadius(duration: number): number {
+  return 4 + Math.min(16, Math.sqrt(Math.max(0, duration) / 1000) * 4);
+}
+
+// A curve bowing towards the centre, so moves to neighbours stay near the
+// rim and longer jumps cut across; returns the control point
+function traceArc(
+  ctx: CanvasRenderingContext2D,
+  from: Point,
+  to: Point,
+  center: Point
+): Point {
+  const control = {
+    x: (from.x + to.x) / 2 + (center.x - (from.x + to.x) / 2) * 0.35,
+    y: (from.y + to.y) / 2 + (center.y - (from.y + to.y) / 2) * 0.35,
+  };
+  ctx.moveTo(from.x, from.y);
+  ctx.quadraticCurveTo(control.x, control.y, to.x, to.y);
+  return control;
+}
+
+function drawDiamond(
+  ctx: CanvasRenderingContext2D,
+  point: Point,
+  size: number
+): void {
+  ctx.beginPath();
+  ctx.moveTo(point.x, point.y - size);
+  ctx.lineTo(point.x + size, point.y);
+  ctx.lineTo(point.x, point.y + size);
+  ctx.lineTo(point.x - size, point.y);
+  ctx.closePath();
+}
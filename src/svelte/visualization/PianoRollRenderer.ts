@@ -0,0 +1,237 @@
+// src/svelte/visualization/PianoRollRenderer.ts
+import { getThemeService, withAlpha } from "../services/ThemeService";
+
+export type RollDirection = "falling" | "horizontal";
+
+// A note on the roll, timed relative to the moment being drawn
+export interface RollNote {
+  midi: number;
+  start: number; // ms from now, negative in the past
+  end: number;
+  velocity: number; // 0 to 1
+  color: string;
+  guide: boolean; // Upcoming note of a loaded session rather than one played
+}
+
+// 88-key range
+export const LOWEST_KEY = 21; // A0
+export const HIGHEST_KEY = 108; // C8
+const WHITE_KEY_COUNT = 52;
+
+// Where the present sits along the direction of travel
+const NOW_FRACTION = 0.7;
+const KEYBOARD_DEPTH = 40;
+const BLACK_KEY_WIDTH = 0.6; // Relative to a white key
+
+const BLACK_PITCH_CLASSES = [1, 3, 6, 8, 10];
+
+// Position of a key across the roll, from A0 at 0 to C8 at extent
+export function getKeySpan(
+  midi: number,
+  extent: number
+): { start: number; size: number; black: boolean } {
+  const whiteWidth = extent / WHITE_KEY_COUNT;
+  const black = isBlackKey(midi);
+  const whiteIndex = countWhiteKeys(midi);
+
+  if (black) {
+    // Centred on the edge between the white keys either side
+    const size = whiteWidth * BLACK_KEY_WIDTH;
+    return { start: whiteIndex * whiteWidth - size / 2, size, black };
+  }
+
+  return { start: whiteIndex * whiteWidth, size: whiteWidth, black };
+}
+
+function isBlackKey(midi: number): boolean {
+  return BLACK_PITCH_CLASSES.includes(midi % 12);
+}
+
+// White keys below a note
+function countWhiteKeys(midi: number): number {
+  let count = 0;
+  for (let note = LOWEST_KEY; note < midi; note++) {
+    if (!isBlackKey(note)) count++;
+  }
+  return count;
+}
+
+/**
+ * Draw a piano roll: notes travel towards the keyboard, which marks the
+ * present, and carry on past it as they are played. Falling rolls run top
+ * to bottom over a horizontal keyboard; horizontal rolls run right to left
+ * with the keyboard standing upright.
+ */
+export function drawPianoRoll(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  notes: RollNote[],
+  activeKeys: Map<number, string>,
+  direction: RollDirection,
+  lookahead: number // ms between the keyboard and the far edge
+): void {
+  const { foreground } = getThemeService().getTheme().surface;
+  const falling = direction === "falling";
+  const travel = falling ? height : width;
+  const across = falling ? width : height;
+  const nowPosition = falling
+    ? travel * NOW_FRACTION
+    : travel * (1 - NOW_FRACTION);
+  const scale = (travel * NOW_FRACTION) / lookahead; // px per ms
+
+  // Rectangle for a span across the keys and a span in time
+  const toRect = (
+    keyStart: number,
+    keySize: number,
+    timeStart: number,
+    timeEnd: number
+  ) => {
+    if (falling) {
+      const top = nowPosition - timeEnd * scale;
+      const bottom = nowPosition - timeStart * scale;
+      return { x: keyStart, y: top, w: keySize, h: bottom - top };
+    }
+    const left = nowPosition + timeStart * scale;
+    const right = nowPosition + timeEnd * scale;
+    const top = across - keyStart - keySize;
+    return { x: left, y: top, w: right - left, h: keySize };
+  };
+
+  drawLanes(ctx, across, travel, falling);
+
+  // Time shown on the far side of the keyboard
+  const past = (travel - travel * NOW_FRACTION) / scale;
+
+  // White-key lanes first so black-key notes stay on top
+  const sorted = [...notes].sort(
+    (a, b) => Number(isBlackKey(a.midi)) - Number(isBlackKey(b.midi))
+  );
+
+  sorted.forEach((note) => {
+    if (note.midi < LOWEST_KEY || note.midi > HIGHEST_KEY) return;
+
+    const key = getKeySpan(note.midi, across);
+    const rect = toRect(key.start + 1, key.size - 2, note.start, note.end);
+
+    // Fade notes out as they leave the far side of the keyboard
+    const fade = note.end < 0 ? 1 + note.end / past : 1;
+    if (fade <= 0) return;
+
+    drawNoteBar(ctx, rect, note, fade);
+  });
+  ctx.globalAlpha = 1;
+
+  // Line marking the present
+  ctx.beginPath();
+  if (falling) {
+    ctx.moveTo(0, nowPosition);
+    ctx.lineTo(width, nowPosition);
+  } else {
+    ctx.moveTo(nowPosition, 0);
+    ctx.lineTo(nowPosition, height);
+  }
+  ctx.strokeStyle = withAlpha(foreground, 0.6);
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  drawKeyboard(ctx, across, nowPosition, falling, activeKeys);
+}
+
+// Faint lanes for the black keys and a line at every C
+function drawLanes(
+  ctx: CanvasRenderingContext2D,
+  across: number,
+  travel: number,
+  falling: boolean
+): void {
+  const { foreground } = getThemeService().getTheme().surface;
+
+  for (let midi = LOWEST_KEY; midi <= HIGHEST_KEY; midi++) {
+    const key = getKeySpan(midi, across);
+
+    if (key.black) {
+      ctx.fillStyle = withAlpha(foreground, 0.03);
+      const rect = falling
+        ? { x: key.start, y: 0, w: key.size, h: travel }
+        : {
+            x: 0,
+            y: across - key.start - key.size,
+            w: travel,
+            h: key.size,
+          };
+      ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+    } else if (midi % 12 === 0) {
+      ctx.fillStyle = withAlpha(foreground, 0.12);
+      const rect = falling
+        ? { x: key.start, y: 0, w: 1, h: travel }
+        : { x: 0, y: across - key.start - 1, w: travel, h: 1 };
+      ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+    }
+  }
+}
+
+function drawNoteBar(
+  ctx: CanvasRenderingContext2D,
+  rect: { x: number; y: number; w: number; h: number },
+  note: RollNote,
+  opacity: number
+): void {
+  const radius = Math.max(0, Math.min(4, rect.w / 2, rect.h / 2));
+
+  ctx.beginPath();
+  ctx.roundRect(rect.x, rect.y, rect.w, rect.h, radius);
+
+  // Upcoming notes are outlined so played notes stand out against them
+  ctx.globalAlpha = note.guide ? opacity * 0.35 : opacity;
+  ctx.fillStyle = note.color;
+  ctx.fill();
+
+  if (note.guide) {
+    ctx.globalAlpha = opacity;
+    ctx.strokeStyle = note.color;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  }
+
+  // Softer notes are darker
+  ctx.fillStyle = `rgba(0, 0, 0, ${(1 - note.velocity) * 0.6})`;
+  ctx.fill();
+}
+
+// The 88 keys, lit while they sound
+function drawKeyboard(
+  ctx: CanvasRenderingContext2D,
+  across: number,
+  nowPosition: number,
+  falling: boolean,
+  activeKeys: Map<number, string>
+): void {
+  // Keys sit just past the line marking the present
+  const keyRect = (start: number, size: number, depth: number) =>
+    falling
+      ? { x: start, y: nowPosition, w: size, h: depth }
+      : {
+          x: nowPosition - depth,
+          y: across - start - size,
+          w: depth,
+          h: size,
+        };
+
+  for (const black of [false, true]) {
+    for (let midi = LOWEST_KEY; midi <= HIGHEST_KEY; midi++) {
+      if (isBlackKey(midi) !== black) continue;
+
+      const key = getKeySpan(midi, across);
+      const depth = black ? KEYBOARD_DEPTH * 0.6 : KEYBOARD_DEPTH;
+      const rect = keyRect(key.start, key.size, depth);
+      const color = activeKeys.get(midi);
+
+      ctx.fillStyle = color ?? (black ? "#222" : "#eee");
+      ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+      ctx.strokeStyle = "#555";
+      ctx.lineWidth = 1;
+      ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
+    }
+  }
+}
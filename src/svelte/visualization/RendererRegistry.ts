@@ -0,0 +1,125 @@
+// src/svelte/visualization/RendererRegistry.ts
+import type {
+  ChordInfo,
+  IntervalInfo,
+  KeySignatureInfo,
+} from "../services/MusicTheoryService";
+import type { VisualChord, VisualNote } from "./VisualNoteUtils";
+import { circleOfFifthsMode } from "./CircleOfFifthsMode";
+import { tonalGravityMode } from "./TonalGravityMode";
+import { harmonicFieldMode } from "./HarmonicFieldMode";
+import { tonnetzMode } from "./TonnetzMode";
+
+export type RendererSettingValue = boolean | string;
+
+export type RendererSettings = Record<string, RendererSettingValue>;
+
+// An option a mode offers in the visualization controls
+export type RendererSetting =
+  | { key: string; label: string; type: "toggle"; default: boolean }
+  | {
+      key: string;
+      label: string;
+      type: "select";
+      options: { value: string; label: string }[];
+      default: string;
+    };
+
+// Everything a renderer gets to lay out and draw a frame
+export interface RenderContext {
+  width: number;
+  height: number;
+  centerX: number;
+  centerY: number;
+  radius: number;
+  currentKey: KeySignatureInfo | null;
+  keyCenter: string;
+  keyMode: string;
+  scaleDegrees: Map<string, number>;
+  chords: ChordInfo[]; // Best interpretation first
+  visualNotes: Map<string, VisualNote>;
+  settings: RendererSettings;
+  time: number; // Date.now() of the frame being drawn
+}
+
+// What a renderer knows about a note when placing it
+export interface NotePlacement {
+  pitchClass: string;
+  scaleDegree: number | null;
+  noteFunction: string;
+}
+
+/**
+ * A visualization mode. layout() runs whenever the key, chords, size or
+ * settings change, before notes are placed; the draw hooks run every frame.
+ * Hooks left out fall back to the shared note, chord and interval drawing.
+ */
+export interface VisualizationRenderer {
+  layout(context: RenderContext): void;
+  // null when the mode has no place for the note
+  getNotePosition(
+    note: NotePlacement,
+    context: RenderContext
+  ): { x: number; y: number } | null;
+  drawBackground(ctx: CanvasRenderingContext2D, context: RenderContext): void;
+  drawChords?(
+    ctx: CanvasRenderingContext2D,
+    visualChords: VisualChord[],
+    context: RenderContext
+  ): void;
+  drawIntervals?(
+    ctx: CanvasRenderingContext2D,
+    intervals: IntervalInfo[],
+    context: RenderContext
+  ): void;
+  drawNotes?(ctx: CanvasRenderingContext2D, context: RenderContext): void;
+}
+
+export interface RendererDefinition {
+  id: string;
+  name: string; // Shown in the mode list
+  settings: RendererSetting[];
+  // Each visualization gets its own renderer, as renderers keep state
+  create(): VisualizationRenderer;
+}
+
+const renderers = new Map<string, RendererDefinition>();
+
+/**
+ * Make a mode available to the visualization, replacing any with the same id
+ */
+export function registerRenderer(definition: RendererDefinition): void {
+  renderers.set(definition.id, definition);
+}
+
+/**
+ * All registered modes, in the order they were registered
+ */
+export function getRendererDefinitions(): RendererDefinition[] {
+  return Array.from(renderers.values());
+}
+
+export function getRendererDefinition(
+  id: string
+): RendererDefinition | undefined {
+  return renderers.get(id);
+}
+
+/**
+ * Settings of a mode at their defaults
+ */
+export function getDefaultSettings(
+  definition: RendererDefinition
+): RendererSettings {
+  const settings: RendererSettings = {};
+  definition.settings.forEach((setting) => {
+    settings[setting.key] = setting.default;
+  });
+  return settings;
+}
+
+// Built-in modes
+registerRenderer(tonalGravityMode);
+registerRenderer(circleOfFifthsMode);
+registerRenderer(harmonicFieldMode);
+registerRenderer(tonnetzMode);
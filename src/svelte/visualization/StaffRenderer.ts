@@ -0,0 +1,331 @@
+// src/svelte/visualization/StaffRenderer.ts
+import { Note } from "@tonaljs/tonal";
+import { getKeySignature } from "../services/NoteSpellingService";
+import { getThemeService, withAlpha } from "../services/ThemeService";
+
+// Notes struck together, written as one chord on the grand staff
+export interface StaffChord {
+  notes: { name: string; midi: number }[]; // Names with octave, e.g. "F#4"
+  active: boolean; // Still held
+}
+
+type Staff = "treble" | "bass";
+
+// A note placed on a staff
+interface StaffNote {
+  staff: Staff;
+  step: number; // Diatonic steps from C0
+  accidental: string | null;
+  offset: number; // Noteheads moved aside in a cluster
+}
+
+const LETTERS = ["C", "D", "E", "F", "G", "A", "B"];
+
+// Bottom and top line of each staff in diatonic steps (E4 to F5, G2 to A3)
+const STAFF_LINES: Record<Staff, { bottom: number; top: number }> = {
+  treble: { bottom: 30, top: 38 },
+  bass: { bottom: 18, top: 26 },
+};
+
+// Order of the key signature and where each accidental sits on the treble
+// staff; the bass staff writes them two octaves lower
+const SHARP_ORDER = ["F", "C", "G", "D", "A", "E", "B"];
+const FLAT_ORDER = ["B", "E", "A", "D", "G", "C", "F"];
+const SHARP_STEPS = [38, 35, 39, 36, 33, 37, 34];
+const FLAT_STEPS = [34, 37, 33, 36, 32, 35, 31];
+
+const ACCIDENTALS: Record<number, string> = {
+  [-2]: "♭♭",
+  [-1]: "♭",
+  0: "♮",
+  1: "♯",
+  2: "x",
+};
+
+// Staff, held and played note colours in the current theme
+function getStaffColors(): { staff: string; held: string; played: string } {
+  const { palette, surface } = getThemeService().getTheme();
+  return {
+    staff: withAlpha(surface.foreground, 0.8),
+    held: palette.functions.subdominant,
+    played: withAlpha(surface.foreground, 0.85),
+  };
+}
+
+/**
+ * Draw chords on a grand staff in the key signature of the detected key.
+ * The newest chord is on the right and older ones fade towards the left.
+ * Notes from middle C up go on the treble staff, lower ones on the bass.
+ * Each chord is read on its own, so accidentals do not carry over.
+ */
+export function drawGrandStaff(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  chords: StaffChord[],
+  keyName: string | null
+): void {
+  // Room for ledger lines above, between and below the staves
+  const space = Math.min(12, height / 24);
+  const trebleBottom = height / 2 - space * 3;
+  const bassBottom = height / 2 + space * 7;
+  const left = space * 2;
+  const right = width - space * 2;
+
+  const getY = (staff: Staff, step: number) => {
+    const bottom = staff === "treble" ? trebleBottom : bassBottom;
+    return bottom - ((step - STAFF_LINES[staff].bottom) * space) / 2;
+  };
+
+  drawStaffLines(ctx, left, right, space, getY);
+  drawClefs(ctx, left, space, getY);
+
+  const { fifths } = getKeySignature(keyName);
+  const keyX = left + space * 4;
+  const keyWidth = drawKeySignature(ctx, keyX, fifths, space, getY);
+
+  // Most recent chords that fit, newest on the right
+  const start = left + space * 5 + keyWidth;
+  const columnWidth = space * 6;
+  const count = Math.max(1, Math.floor((right - start) / columnWidth));
+  const visible = chords.slice(-count);
+
+  visible.forEach((chord, index) => {
+    const age = visible.length - 1 - index;
+    const x = right - columnWidth * (age + 0.5);
+    const opacity = chord.active ? 1 : Math.max(0.25, 1 - age / count);
+
+    ctx.globalAlpha = opacity;
+    drawChord(ctx, chord, x, fifths, space, getY);
+  });
+  ctx.globalAlpha = 1;
+}
+
+function drawStaffLines(
+  ctx: CanvasRenderingContext2D,
+  left: number,
+  right: number,
+  space: number,
+  getY: (staff: Staff, step: number) => number
+): void {
+  ctx.strokeStyle = getStaffColors().staff;
+  ctx.lineWidth = 1;
+
+  (["treble", "bass"] as Staff[]).forEach((staff) => {
+    const { bottom, top } = STAFF_LINES[staff];
+    for (let step = bottom; step <= top; step += 2) {
+      const y = getY(staff, step);
+      ctx.beginPath();
+      ctx.moveTo(left, y);
+      ctx.lineTo(right, y);
+      ctx.stroke();
+    }
+  });
+
+  // System line and brace joining the staves
+  const top = getY("treble", STAFF_LINES.treble.top);
+  const bottom = getY("bass", STAFF_LINES.bass.bottom);
+  ctx.beginPath();
+  ctx.moveTo(left, top);
+  ctx.lineTo(left, bottom);
+  ctx.moveTo(right, top);
+  ctx.lineTo(right, bottom);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(left - space * 0.5, top);
+  ctx.quadraticCurveTo(
+    left - space * 1.5,
+    (top + bottom) / 2,
+    left - space * 0.5,
+    bottom
+  );
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
+
+function drawClefs(
+  ctx: CanvasRenderingContext2D,
+  left: number,
+  space: number,
+  getY: (staff: Staff, step: number) => number
+): void {
+  ctx.fillStyle = getStaffColors().staff;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+
+  // Treble clef curls round the G line, bass clef sits on the F line
+  ctx.font = `${space * 6}px serif`;
+  ctx.fillText("𝄞", left + space * 0.5, getY("treble", 32) - space * 0.4);
+  ctx.font = `${space * 3.5}px serif`;
+  ctx.fillText("𝄢", left + space * 0.5, getY("bass", 24) + space * 0.4);
+}
+
+// Returns the width the signature takes up
+function drawKeySignature(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  fifths: number,
+  space: number,
+  getY: (staff: Staff, step: number) => number
+): number {
+  const count = Math.min(7, Math.abs(fifths));
+  const steps = fifths > 0 ? SHARP_STEPS : FLAT_STEPS;
+  const glyph = fifths > 0 ? ACCIDENTALS[1] : ACCIDENTALS[-1];
+
+  ctx.fillStyle = getStaffColors().staff;
+  ctx.font = `${space * 2}px serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  for (let i = 0; i < count; i++) {
+    const accidentalX = x + i * space;
+    ctx.fillText(glyph, accidentalX, getY("treble", steps[i]));
+    ctx.fillText(glyph, accidentalX, getY("bass", steps[i] - 14));
+  }
+
+  return count * space;
+}
+
+// Alteration of each letter in the key signature
+function getKeyAlterations(fifths: number): Map<string, number> {
+  const alterations = new Map<string, number>();
+  const order = fifths > 0 ? SHARP_ORDER : FLAT_ORDER;
+  const alter = fifths > 0 ? 1 : -1;
+
+  order.slice(0, Math.abs(fifths)).forEach((letter) => {
+    alterations.set(letter, alter);
+  });
+  return alterations;
+}
+
+// Work out staff, accidentals and cluster offsets for a chord
+function placeChord(chord: StaffChord, fifths: number): StaffNote[] {
+  const alterations = getKeyAlterations(fifths);
+
+  const notes: StaffNote[] = chord.notes
+    .map(({ name, midi }) => {
+      const { letter, alt, oct } = Note.get(name);
+      const step = LETTERS.indexOf(letter) + 7 * (oct ?? 4);
+      const keyAlter = alterations.get(letter) ?? 0;
+
+      return {
+        staff: (midi >= 60 ? "treble" : "bass") as Staff,
+        step,
+        accidental: alt !== keyAlter ? ACCIDENTALS[alt] ?? null : null,
+        offset: 0,
+      };
+    })
+    .sort((a, b) => a.step - b.step);
+
+  // A note a step above the one below it moves to the other side
+  notes.forEach((note, index) => {
+    const below = notes[index - 1];
+    if (
+      below &&
+      below.staff === note.staff &&
+      note.step - below.step <= 1 &&
+      below.offset === 0
+    ) {
+      note.offset = 1;
+    }
+  });
+
+  return notes;
+}
+
+function drawChord(
+  ctx: CanvasRenderingContext2D,
+  chord: StaffChord,
+  x: number,
+  fifths: number,
+  space: number,
+  getY: (staff: Staff, step: number) => number
+): void {
+  const notes = placeChord(chord, fifths);
+  const colors = getStaffColors();
+  const color = chord.active ? colors.held : colors.played;
+  const headWidth = space * 1.3;
+
+  drawLedgerLines(ctx, notes, x, headWidth, space, getY);
+
+  // Accidentals from the top down, stepping left when they would collide
+  const columns: number[][] = [];
+  [...notes].reverse().forEach((note) => {
+    if (!note.accidental) return;
+
+    const y = getY(note.staff, note.step);
+    let column = 0;
+    while (
+      columns[column] &&
+      columns[column].some((placed) => Math.abs(placed - y) < space * 3)
+    ) {
+      column++;
+    }
+    if (!columns[column]) columns[column] = [];
+    columns[column].push(y);
+
+    ctx.fillStyle = color;
+    ctx.font = `${space * 2}px serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(note.accidental, x - headWidth - column * space * 1.2, y);
+  });
+
+  // Open noteheads, as the length of a held note is not yet known
+  notes.forEach((note) => {
+    const headX = x + note.offset * headWidth;
+    const y = getY(note.staff, note.step);
+
+    ctx.beginPath();
+    ctx.ellipse(headX, y, headWidth / 2, space * 0.45, -0.3, 0, 2 * Math.PI);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = Math.max(1.5, space * 0.2);
+    ctx.stroke();
+
+    if (chord.active) {
+      const alpha = ctx.globalAlpha;
+      ctx.globalAlpha = alpha * 0.3;
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.globalAlpha = alpha;
+    }
+  });
+}
+
+// Short lines for notes above or below a staff, including middle C
+function drawLedgerLines(
+  ctx: CanvasRenderingContext2D,
+  notes: StaffNote[],
+  x: number,
+  headWidth: number,
+  space: number,
+  getY: (staff: Staff, step: number) => number
+): void {
+  ctx.strokeStyle = getStaffColors().staff;
+  ctx.lineWidth = 1;
+
+  (["treble", "bass"] as Staff[]).forEach((staff) => {
+    const { bottom, top } = STAFF_LINES[staff];
+    const staffNotes = notes.filter((note) => note.staff === staff);
+    if (staffNotes.length === 0) return;
+
+    const lowest = Math.min(...staffNotes.map((note) => note.step));
+    const highest = Math.max(...staffNotes.map((note) => note.step));
+    const displaced = staffNotes.some((note) => note.offset > 0);
+    const length = headWidth * (displaced ? 2.6 : 1.6);
+    const start = x - headWidth * 0.8;
+
+    const lines: number[] = [];
+    for (let step = bottom - 2; step >= lowest; step -= 2) lines.push(step);
+    for (let step = top + 2; step <= highest; step += 2) lines.push(step);
+
+    lines.forEach((step) => {
+      const y = getY(staff, step);
+      ctx.beginPath();
+      ctx.moveTo(start, y);
+      ctx.lineTo(start + length, y);
+      ctx.stroke();
+    });
+  });
+}
@@ -0,0 +1,56 @@
+// src/svelte/visualization/TonalGravityMode.ts
+import {
+  drawTonalGravityBackground,
+  getTonalGravityPosition,
+} from "./BackgroundRenderer";
+import type {
+  NotePlacement,
+  RenderContext,
+  RendererDefinition,
+  VisualizationRenderer,
+} from "./RendererRegistry";
+
+// Notes pulled towards the tonic by their function in the key
+class TonalGravityRenderer implements VisualizationRenderer {
+  layout(context: RenderContext): void {}
+
+  getNotePosition(
+    note: NotePlacement,
+    context: RenderContext
+  ): { x: number; y: number } | null {
+    return getTonalGravityPosition(
+      note.noteFunction,
+      note.scaleDegree,
+      context.centerX,
+      context.centerY,
+      context.radius
+    );
+  }
+
+  drawBackground(ctx: CanvasRenderingContext2D, context: RenderContext): void {
+    drawTonalGravityBackground(
+      ctx,
+      context.centerX,
+      context.centerY,
+      context.radius,
+      context.currentKey,
+      context.keyCenter,
+      context.keyMode,
+      context.settings.showFunctionAxes !== false
+    );
+  }
+}
+
+export const tonalGravityMode: RendererDefinition = {
+  id: "tonal-gravity",
+  name: "Tonal Gravity",
+  settings: [
+    {
+      key: "showFunctionAxes",
+      label: "Function axes",
+      type: "toggle",
+      default: true,
+    },
+  ],
+  create: () => new TonalGravityRenderer(),
+};
@@ -0,0 +1,124 @@
+// src/svelte/visualization/TonnetzMode.ts
+import { Chord, Note } from "@tonaljs/tonal";
+import type { ChordInfo } from "../services/MusicTheoryService";
+import {
+  calculateTonnetzCoordinates,
+  drawTonnetzBackground,
+  getChordRoot,
+  getPitchClassPosition,
+  getTonnetzTransformation,
+  type TonnetzMove,
+  type Triad,
+} from "./BackgroundRenderer";
+import type {
+  NotePlacement,
+  RenderContext,
+  RendererDefinition,
+  VisualizationRenderer,
+} from "./RendererRegistry";
+
+// Distance between neighbouring lattice points, relative to the radius
+const LATTICE_SPACING: Record<string, number> = {
+  small: 0.4,
+  medium: 0.5,
+  large: 0.65,
+};
+
+// Major or minor triad at the heart of a chord, sevenths included
+function getTriad(chord: ChordInfo | undefined): Triad | null {
+  if (!chord) return null;
+  const { tonic, quality } = Chord.get(chord.name.split("/")[0]);
+  if (!tonic || (quality !== "Major" && quality !== "Minor")) return null;
+  return { root: Note.chroma(tonic), minor: quality === "Minor" };
+}
+
+// Notes on the Tonnetz lattice, with moves between triads animated
+class TonnetzRenderer implements VisualizationRenderer {
+  private coordinates = new Map<string, { x: number; y: number }>();
+  private spacing = 0;
+  private heldTriad: Triad | null = null;
+  private lastTriad: Triad | null = null;
+  private move: TonnetzMove | null = null;
+
+  layout(context: RenderContext): void {
+    const factor = LATTICE_SPACING[String(context.settings.latticeSize)];
+    this.spacing = context.radius * (factor ?? LATTICE_SPACING.medium);
+
+    const root =
+      getChordRoot(context.chords[0]) ??
+      (context.currentKey ? context.keyCenter : null);
+    this.coordinates = calculateTonnetzCoordinates(
+      context.centerX,
+      context.centerY,
+      this.spacing,
+      context.currentKey?.keyName ?? null,
+      root
+    );
+
+    // Start a move whenever a different triad follows the last one
+    this.heldTriad = getTriad(context.chords[0]);
+    const held = this.heldTriad;
+    const last = this.lastTriad;
+    if (
+      held &&
+      (!last || last.root !== held.root || last.minor !== held.minor)
+    ) {
+      if (last) {
+        this.move = {
+          from: last,
+          to: held,
+          steps: getTonnetzTransformation(last, held) ?? "",
+          start: context.time,
+        };
+      }
+      this.lastTriad = held;
+    }
+  }
+
+  getNotePosition(
+    note: NotePlacement,
+    context: RenderContext
+  ): { x: number; y: number } | null {
+    return getPitchClassPosition(this.coordinates, note.pitchClass);
+  }
+
+  drawBackground(ctx: CanvasRenderingContext2D, context: RenderContext): void {
+    drawTonnetzBackground(
+      ctx,
+      context.width,
+      context.height,
+      context.centerX,
+      context.centerY,
+      this.spacing,
+      context.currentKey?.keyName ?? null,
+      this.heldTriad,
+      context.settings.showMoves !== false ? this.move : null,
+      context.time
+    );
+  }
+}
+
+export const tonnetzMode: RendererDefinition = {
+  id: "tonnetz",
+  name: "Tonnetz",
+  settings: [
+    {
+      key: "showMoves",
+      label: "P/L/R moves",
+      type: "toggle",
+      default: true,
+    },
+    {
+      key: "latticeSize",
+      label: "Lattice",
+      type: "select",
+      options: [
+        { value: "small", label: "Small" },
+        { value: "medium", label: "Medium" },
+        { value: "large", label: "Large" },
+      ],
+      default: "medium",
+    },
+  ],
+  create: () => new TonnetzRenderer(),
+};
@@ -1,5 +1,13 @@
 // src/svelte/visualization/VisualNoteUtils.ts
-import type { NoteData } from "../services/MusicTheoryService";
+import { Note } from "@tonaljs/tonal";
+import type {
+  NoteData,
+  ChordInversion,
+} from "../services/MusicTheoryService";
+import {
+  getThemeService,
+  type NoteFunction,
+} from "../services/ThemeService";
 
 // Visual note representation
 export interface VisualNote {
@@ -34,6 +42,9 @@ export interface VisualChord {
   name: string;
   function: string;
   rootScaleDegree: number | null;
+  romanNumeral: string | null; // Includes inversion figures, e.g. "V6/5"
+  bass: string;
+  inversion: ChordInversion | null;
 }
 
 // Constants
@@ -42,15 +53,6 @@ const MAX_RADIUS = 45;
 const MIN_MIDI = 21; // A0
 const MAX_MIDI = 108; // C8
 
-// Color palettes
-export const FUNCTION_COLORS = {
-  tonic: "hsl(200, 90%, 60%)", // Blue
-  dominant: "hsl(0, 90%, 60%)", // Red
-  subdominant: "hsl(120, 70%, 60%)", // Green
-  mediant: "hsl(270, 70%, 60%)", // Purple
-  other: "hsl(0, 0%, 60%)", // Gray
-};
-
 // Create a new visual note
 export function createVisualNote(
   note: NoteData,
@@ -60,7 +62,12 @@ export function createVisualNote(
   position: { x: number; y: number }
 ): VisualNote {
   const radius = noteToRadius(note.midiNumber, note.inKey, note.active);
-  const color = getFunctionColor(noteFunction, note.inKey, scaleDegree);
+  const color = getFunctionColor(
+    noteFunction,
+    note.inKey,
+    scaleDegree,
+    pitchClass
+  );
 
   return {
     id: note.id,
@@ -92,6 +99,7 @@ export function updateVisualNote(
   noteFunction: "tonic" | "dominant" | "subdominant" | "mediant" | "other",
   position: { x: number; y: number }
 ): void {
+  visualNote.name = note.name; // Spelling follows the key
   visualNote.active = note.active;
   visualNote.timestamp = note.timestamp;
   visualNote.opacity = 1;
@@ -99,7 +107,12 @@ export function updateVisualNote(
   visualNote.scaleDegree = scaleDegree;
   visualNote.function = noteFunction;
   visualNote.radius = noteToRadius(note.midiNumber, note.inKey, note.active);
-  visualNote.color = getFunctionColor(noteFunction, note.inKey, scaleDegree);
+  visualNote.color = getFunctionColor(
+    noteFunction,
+    note.inKey,
+    scaleDegree,
+    pitchClass
+  );
 
   // Update position target (note will animate toward this)
   visualNote.targetX = position.x;
@@ -128,25 +141,31 @@ export function noteToRadius(
   return radius;
 }
 
-// Get color based on note function
+// Get color based on note function, in the current palette
 export function getFunctionColor(
   noteFunction: string,
   inKey: boolean,
-  scaleDegree: number | null
+  scaleDegree: number | null,
+  pitchClass: string | null = null
 ): string {
-  if (!inKey) return "hsl(0, 0%, 50%)"; // Gray for notes outside the key
+  const { palette } = getThemeService().getTheme();
+
+  // Synesthetic palettes colour every note by its pitch
+  if (palette.colorByPitch && pitchClass) {
+    const chroma = Note.chroma(pitchClass);
+    if (!isNaN(chroma)) return palette.pitchClasses[chroma];
+  }
 
-  const baseColor =
-    FUNCTION_COLORS[noteFunction as keyof typeof FUNCTION_COLORS] ||
-    FUNCTION_COLORS.other;
+  if (!inKey) return palette.outOfKey;
 
   // For 'other' notes that are in the key, shade by scale degree
-  if (noteFunction === "other" && scaleDegree !== null) {
-    const hue = ((scaleDegree - 1) * 30) % 360;
-    return `hsl(${hue}, 60%, 60%)`;
+  if (noteFunction === "other" && scaleDegree !== null && palette.degrees) {
+    return palette.degrees[scaleDegree - 1] ?? palette.functions.other;
   }
 
-  return baseColor;
+  return (
+    palette.functions[noteFunction as NoteFunction] ?? palette.functions.other
+  );
 }
 
 // Determine note function within key
@@ -5,10 +5,19 @@ interface Window {
     showOpenDialog: (
       options: any
     ) => Promise<{ canceled: boolean; filePaths: string[] }>;
+    showSaveDialog: (
+      options: any
+    ) => Promise<{ canceled: boolean; filePath?: string }>;
     readFile: (
       filePath: string,
       encoding?: string
     ) => Promise<string | Uint8Array>;
+    writeFile: (filePath: string, data: string | Uint8Array) => Promise<boolean>;
+    writeFrame: (
+      directoryPath: string,
+      index: number,
+      data: Uint8Array
+    ) => Promise<string>;
     listDirectory: (directoryPath: string) => Promise<any[]>;
     getBasename: (filePath: string) => string;
     getDirectoryPath: (filePath: string) => string;